@@ -1,9 +1,12 @@
 import React from 'react'
-import { DynamicForm, FormConfig } from 'form-design-lib'
+import { DynamicForm, FormConfig, FormContext } from 'form-design-lib'
 import '../../form-design-lib/src/style.css'
 import { mockApiProvider } from './mockApi'
 import './App.css'
 
+// The demo has no router: the user to load is passed as a route parameter would be
+const demoContext: FormContext = { queryString: { userId: '123' } }
+
 const App: React.FC = () => {
   const exampleConfig: FormConfig = {
     formName: 'User Registration',
@@ -18,6 +21,7 @@ const App: React.FC = () => {
         sourceName: 'countryList',
         sourceType: 'API',
         endpoint: '/api/countries',
+        transform: [{ name: 'sortBy', key: 'name' }],
       },
       {
         sourceName: 'stateList',
@@ -615,6 +619,7 @@ const App: React.FC = () => {
         <DynamicForm
           config={exampleConfig}
           apiProvider={mockApiProvider}
+          context={demoContext}
           persistState={false}
           storageKey="demo-form-state"
           onSubmit={handleSubmit}
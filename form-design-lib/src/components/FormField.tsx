@@ -1,7 +1,7 @@
 import React from 'react'
 import { FormField as FormFieldType } from '../types'
-import { defaultFieldRegistry } from '../core/FieldRegistry'
 import type { BaseFieldProps } from '../core/FieldRegistry'
+import { useFieldRegistry } from './FormRegistryProvider'
 import './FormField.css'
 
 // Import field registry setup to trigger initialization
@@ -23,6 +23,11 @@ export interface FormFieldProps {
   fieldErrors?: Record<string, string>
   validatingFields?: Set<string>
   loadingStates?: Record<string, boolean>
+  onListItemsMove?: (listBinding: string, indexMap: Record<number, number | null>) => void
+  isTouched?: boolean
+  isDirty?: boolean
+  // Full binding path of the field (defaults to field.binding; List items pass their indexed binding)
+  bindingPath?: string
 }
 
 export const FormField: React.FC<FormFieldProps> = ({
@@ -39,18 +44,26 @@ export const FormField: React.FC<FormFieldProps> = ({
   fieldErrors = {},
   validatingFields = new Set(),
   loadingStates = {},
+  onListItemsMove,
+  isTouched = false,
+  isDirty = false,
+  bindingPath,
 }) => {
   const gridClass = `form-design-field-col-${field.gridSize || 12}`
+  // Computed fields are always read-only: their value is owned by the ComputedFieldEngine
+  const isReadOnly = !!(field.readOnly || field.compute)
+  // Registry of the closest FormRegistryProvider (defaultFieldRegistry outside any provider)
+  const registry = useFieldRegistry()
 
   const renderField = () => {
     // Get the field component from the registry
-    const FieldComponent = defaultFieldRegistry.get(field.fieldType)
+    const FieldComponent = registry.get(field.fieldType)
 
     if (!FieldComponent) {
       if (import.meta.env.DEV) {
         console.warn(
           `[FormField] No component registered for field type "${field.fieldType}". ` +
-          `Registered types: ${defaultFieldRegistry.getRegisteredTypes().join(', ')}`
+          `Registered types: ${registry.getRegisteredTypes().join(', ')}`
         )
       }
       return null
@@ -60,7 +73,7 @@ export const FormField: React.FC<FormFieldProps> = ({
     const fieldProps: BaseFieldProps = {
       field,
       value,
-      onChange,
+      onChange: isReadOnly ? () => {} : onChange,
       onBlur,
       error,
       sourceData,
@@ -71,6 +84,9 @@ export const FormField: React.FC<FormFieldProps> = ({
       fieldErrors,
       validatingFields,
       loadingStates,
+      onListItemsMove,
+      isTouched,
+      isDirty,
     }
 
     return <FieldComponent {...fieldProps} />
@@ -80,7 +96,23 @@ export const FormField: React.FC<FormFieldProps> = ({
   if (!fieldContent) return null
 
   const isCheckbox = field.fieldType === 'Checkbox'
-  const wrapperClass = `form-design-field ${gridClass}${isCheckbox ? ' form-design-field-checkbox' : ''}`
+  const wrapperClass = `form-design-field ${gridClass}${isCheckbox ? ' form-design-field-checkbox' : ''}` +
+    `${isTouched ? ' form-design-field-touched' : ''}${isDirty ? ' form-design-field-dirty' : ''}`
 
-  return <div className={wrapperClass}>{fieldContent}</div>
+  if (isReadOnly) {
+    // A disabled fieldset disables every control the field component renders
+    return (
+      <div className={wrapperClass} data-binding={bindingPath ?? field.binding}>
+        <fieldset disabled className="form-design-field-readonly">
+          {fieldContent}
+        </fieldset>
+      </div>
+    )
+  }
+
+  return (
+    <div className={wrapperClass} data-binding={bindingPath ?? field.binding}>
+      {fieldContent}
+    </div>
+  )
 }
@@ -0,0 +1,36 @@
+import { createContext, useContext, ReactNode } from 'react'
+import { FieldRegistry, defaultFieldRegistry } from '../core/FieldRegistry'
+
+const FieldRegistryContext = createContext<FieldRegistry>(defaultFieldRegistry)
+
+export interface FormRegistryProviderProps {
+  // Registry used by every FormField (including List item fields) rendered inside
+  registry: FieldRegistry
+  children: ReactNode
+}
+
+/**
+ * Provides a field registry to the forms and fields rendered inside it
+ * Fields outside any provider use defaultFieldRegistry.
+ *
+ * @example
+ * ```tsx
+ * const registry = initializeFieldRegistry(new FieldRegistry())
+ * registry.register('Dropdown', SearchableDropdown, true)
+ *
+ * <FormRegistryProvider registry={registry}>
+ *   <DynamicForm config={config} apiProvider={apiProvider} />
+ * </FormRegistryProvider>
+ * ```
+ */
+export function FormRegistryProvider({ registry, children }: FormRegistryProviderProps) {
+  return <FieldRegistryContext.Provider value={registry}>{children}</FieldRegistryContext.Provider>
+}
+
+/**
+ * Get the field registry of the closest FormRegistryProvider
+ * @returns The provided registry, or defaultFieldRegistry outside any provider
+ */
+export function useFieldRegistry(): FieldRegistry {
+  return useContext(FieldRegistryContext)
+}
@@ -0,0 +1,214 @@
+import { createRef } from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor, act, fireEvent } from '@testing-library/react'
+import { DynamicForm, DynamicFormHandle } from '../DynamicForm'
+import { FormConfig, ApiProvider } from '../../types'
+
+const getInput = (container: HTMLElement, binding: string) =>
+  container.querySelector<HTMLInputElement>(`[data-binding="${binding}"] input`)
+
+describe('DynamicForm', () => {
+  describe('DynamicFormHandle', () => {
+    const config: FormConfig = {
+      formName: 'Profile',
+      gridSize: 12,
+      layout: 'tabs',
+      sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/user' }],
+      fields: [
+        { fieldName: 'Name', fieldType: 'Text', binding: 'object.name', required: true, section: 'Account' },
+        { fieldName: 'Nickname', fieldType: 'Text', binding: 'object.nickname', section: 'Account', resetOn: ['object.name'] },
+        { fieldName: 'Email', fieldType: 'Text', binding: 'object.email', required: true, section: 'Contact' },
+      ],
+    }
+    const apiProvider: ApiProvider = {
+      call: vi.fn(async () => ({ name: 'Ada', nickname: 'Ace', email: 'ada@example.com' })),
+    }
+
+    const renderForm = async () => {
+      const ref = createRef<DynamicFormHandle>()
+      const view = render(<DynamicForm ref={ref} config={config} apiProvider={apiProvider} />)
+      await waitFor(() => expect(getInput(view.container, 'object.name')?.value).toBe('Ada'))
+      return { ref, ...view }
+    }
+
+    it('should change values through the field change handler', async () => {
+      const { ref, container } = await renderForm()
+
+      act(() => {
+        ref.current!.setValue('object.name', 'Grace')
+      })
+
+      expect(getInput(container, 'object.name')?.value).toBe('Grace')
+      // Dependent fields are reset as when the user types
+      expect(getInput(container, 'object.nickname')?.value).toBe('')
+      expect(ref.current!.getValues()).toMatchObject({ name: 'Grace', nickname: '', email: 'ada@example.com' })
+    })
+
+    it('should set and clear field errors', async () => {
+      const { ref } = await renderForm()
+
+      act(() => {
+        ref.current!.setError('object.name', 'Name is taken')
+      })
+      expect(screen.getByText('Name is taken')).toBeTruthy()
+
+      act(() => {
+        ref.current!.setError('object.name')
+      })
+      expect(screen.queryByText('Name is taken')).toBeNull()
+    })
+
+    it('should validate only the requested paths and keep other errors', async () => {
+      const { ref } = await renderForm()
+
+      act(() => {
+        ref.current!.setError('object.email', 'Email is taken')
+        ref.current!.setValue('object.name', '')
+      })
+
+      let errors: Record<string, string> = {}
+      await act(async () => {
+        errors = await ref.current!.validate(['object.name'])
+      })
+
+      expect(errors).toEqual({ 'object.name': 'Name is required' })
+      expect(screen.getByText('Name is required')).toBeTruthy()
+
+      // The email error is outside the validated paths: it is kept, on its (now hidden) tab
+      act(() => {
+        ref.current!.focus('object.email')
+      })
+      expect(screen.getByText('Email is taken')).toBeTruthy()
+    })
+
+    it('should open the tab of a field and focus it', async () => {
+      const { ref, container } = await renderForm()
+      expect(getInput(container, 'object.email')).toBeNull()
+
+      act(() => {
+        ref.current!.focus('object.email')
+      })
+
+      await waitFor(() => expect(document.activeElement).toBe(getInput(container, 'object.email')))
+      expect(screen.getByRole('tab', { name: 'Contact' }).getAttribute('aria-selected')).toBe('true')
+    })
+  })
+
+  describe('wizard layout', () => {
+    const config: FormConfig = {
+      formName: 'Onboarding',
+      gridSize: 12,
+      layout: 'wizard',
+      sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/user' }],
+      fields: [
+        { fieldName: 'Name', fieldType: 'Text', binding: 'object.name', required: true, section: 'Account' },
+        { fieldName: 'Employed', fieldType: 'Checkbox', binding: 'object.isEmployed', section: 'Account' },
+        {
+          fieldName: 'Company',
+          fieldType: 'Text',
+          binding: 'object.company',
+          section: 'Employment',
+          visibleWhen: 'object.isEmployed == true',
+        },
+        { fieldName: 'Email', fieldType: 'Text', binding: 'object.email', section: 'Contact' },
+      ],
+    }
+    const apiProvider: ApiProvider = { call: vi.fn(async () => ({ name: '', isEmployed: false })) }
+
+    const renderWizard = async () => {
+      const onStepChange = vi.fn()
+      const view = render(<DynamicForm config={config} apiProvider={apiProvider} onStepChange={onStepChange} />)
+      await waitFor(() => expect(getInput(view.container, 'object.name')).not.toBeNull())
+      return { onStepChange, ...view }
+    }
+
+    it('should validate the current step before advancing and report step changes', async () => {
+      const { container, onStepChange } = await renderWizard()
+      expect(screen.getByText('Step 1 of 2')).toBeTruthy()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }))
+      await waitFor(() => expect(screen.getByText('Name is required')).toBeTruthy())
+      expect(screen.getByText('Step 1 of 2')).toBeTruthy()
+      expect(onStepChange).not.toHaveBeenCalled()
+
+      fireEvent.change(getInput(container, 'object.name')!, { target: { value: 'Ada' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }))
+
+      // The Employment step has no visible field: it is skipped
+      await waitFor(() => expect(screen.getByText('Step 2 of 2')).toBeTruthy())
+      expect(onStepChange).toHaveBeenCalledWith(1, 'Contact')
+      expect(getInput(container, 'object.email')).not.toBeNull()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Back' }))
+      expect(onStepChange).toHaveBeenLastCalledWith(0, 'Account')
+      expect(screen.getByText('Step 1 of 2')).toBeTruthy()
+    })
+
+    it('should add steps when their fields become visible', async () => {
+      const { container, onStepChange } = await renderWizard()
+
+      fireEvent.change(getInput(container, 'object.name')!, { target: { value: 'Ada' } })
+      fireEvent.click(getInput(container, 'object.isEmployed')!)
+      await waitFor(() => expect(screen.getByText('Step 1 of 3')).toBeTruthy())
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }))
+      await waitFor(() => expect(onStepChange).toHaveBeenCalledWith(1, 'Employment'))
+      expect(getInput(container, 'object.company')).not.toBeNull()
+    })
+  })
+
+  describe('tabs and accordion layouts', () => {
+    const fields: FormConfig['fields'] = [
+      { fieldName: 'Name', fieldType: 'Text', binding: 'object.name', required: true, section: 'Account' },
+      { fieldName: 'Email', fieldType: 'Text', binding: 'object.email', required: true, section: 'Contact' },
+      { fieldName: 'Phone', fieldType: 'Text', binding: 'object.phone', required: true, section: 'Contact' },
+    ]
+    const apiProvider: ApiProvider = { call: vi.fn(async () => ({ name: 'Ada', email: '', phone: '' })) }
+
+    const renderLayout = async (layout: FormConfig['layout']) => {
+      const config: FormConfig = {
+        formName: 'Profile',
+        gridSize: 12,
+        layout,
+        sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/user' }],
+        fields,
+      }
+      const onSubmit = vi.fn()
+      const view = render(<DynamicForm config={config} apiProvider={apiProvider} onSubmit={onSubmit} />)
+      await waitFor(() => expect(getInput(view.container, 'object.name')?.value).toBe('Ada'))
+      return { onSubmit, ...view }
+    }
+
+    it('should count invalid fields on the tabs and open the first invalid tab on submit', async () => {
+      const { container, onSubmit } = await renderLayout('tabs')
+      expect(getInput(container, 'object.email')).toBeNull()
+
+      fireEvent.click(screen.getByRole('button', { name: /Save Changes/ }))
+
+      await waitFor(() =>
+        expect(screen.getByRole('tab', { name: /Contact/ }).getAttribute('aria-selected')).toBe('true')
+      )
+      expect(screen.getByLabelText('2 invalid fields')).toBeTruthy()
+      expect(screen.getByRole('tab', { name: 'Account' }).querySelector('.form-design-form-error-badge')).toBeNull()
+      expect(getInput(container, 'object.email')).not.toBeNull()
+      expect(onSubmit).not.toHaveBeenCalled()
+
+      // Fixing a field updates the badge
+      fireEvent.change(getInput(container, 'object.email')!, { target: { value: 'ada@example.com' } })
+      await waitFor(() => expect(screen.getByLabelText('1 invalid fields')).toBeTruthy())
+    })
+
+    it('should show badges on accordion sections and expand the first invalid one on submit', async () => {
+      const { container } = await renderLayout('accordion')
+      expect(getInput(container, 'object.email')).toBeNull()
+
+      fireEvent.click(screen.getByRole('button', { name: /Save Changes/ }))
+
+      await waitFor(() => expect(getInput(container, 'object.email')).not.toBeNull())
+      // Expanding one accordion section collapses the others
+      expect(getInput(container, 'object.name')).toBeNull()
+      expect(screen.getByRole('heading', { name: /Contact/ }).querySelector('[aria-label="2 invalid fields"]')).not.toBeNull()
+    })
+  })
+})
+
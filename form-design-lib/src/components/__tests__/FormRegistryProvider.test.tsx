@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import { FieldRegistry, BaseFieldProps, defaultFieldRegistry } from '../../core/FieldRegistry'
+import { FormRegistryProvider } from '../FormRegistryProvider'
+import { FormField } from '../FormField'
+import { DynamicForm } from '../DynamicForm'
+import { FormConfig, FormField as FormFieldType } from '../../types'
+
+const CustomTextField = ({ field, value }: BaseFieldProps) => (
+  <div data-testid="custom-text-field">{`${field.fieldName}: ${value}`}</div>
+)
+
+const nameField: FormFieldType = { fieldName: 'Name', fieldType: 'Text', binding: 'object.name' }
+
+const createRegistry = () => {
+  const registry = new FieldRegistry()
+  registry.register('Text', CustomTextField)
+  return registry
+}
+
+describe('FormRegistryProvider', () => {
+  it('should render fields from the provided registry', () => {
+    render(
+      <FormRegistryProvider registry={createRegistry()}>
+        <FormField field={nameField} value="Ada" onChange={() => {}} sourceData={{}} />
+      </FormRegistryProvider>
+    )
+
+    expect(screen.getByTestId('custom-text-field').textContent).toBe('Name: Ada')
+  })
+
+  it('should fall back to the default registry outside a provider', () => {
+    render(<FormField field={nameField} value="Ada" onChange={() => {}} sourceData={{}} />)
+
+    expect(screen.queryByTestId('custom-text-field')).toBeNull()
+    expect(screen.getByDisplayValue('Ada')).toBeTruthy()
+    expect(defaultFieldRegistry.get('Text')).not.toBe(CustomTextField)
+  })
+
+  it('should let DynamicForm use its own registry', async () => {
+    const config: FormConfig = {
+      formName: 'Profile',
+      gridSize: 12,
+      sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/user' }],
+      fields: [nameField],
+    }
+    const apiProvider = { call: vi.fn(async () => ({ name: 'Ada' })) }
+
+    render(
+      <>
+        <DynamicForm config={config} apiProvider={apiProvider} registry={createRegistry()} />
+        <DynamicForm config={{ ...config, formName: 'Default' }} apiProvider={apiProvider} />
+      </>
+    )
+
+    await waitFor(() => expect(screen.getByTestId('custom-text-field').textContent).toBe('Name: Ada'))
+    expect(screen.getByDisplayValue('Ada')).toBeTruthy()
+  })
+})
@@ -1,5 +1,6 @@
 import React from 'react'
 import { FormField as FormFieldType } from '../../types'
+import { getFieldOptions } from '../../utils/options'
 import { AlertCircleIcon, LoaderIcon } from '../Icons'
 
 export interface DropdownFieldProps {
@@ -38,8 +39,7 @@ export const DropdownField: React.FC<DropdownFieldProps> = ({
     ) : null
 
   const commonInputClasses = `form-design-field-input ${error ? 'form-design-field-input-error' : ''}`
-  const optionsData = sourceData[field.optionsSource || '']
-  const options = Array.isArray(optionsData) ? optionsData : []
+  const options = getFieldOptions(field, sourceData)
 
   return (
     <>
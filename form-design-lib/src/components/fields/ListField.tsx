@@ -2,6 +2,7 @@ import React from 'react'
 import { FormField as FormFieldType } from '../../types'
 import { FormField } from '../FormField'
 import { AlertCircleIcon, LoaderIcon } from '../Icons'
+import { createListItem, createListItemId, getListItemProperty } from '../../utils/listItems'
 import '../FormField.css'
 import './ListField.css'
 
@@ -20,11 +21,14 @@ export interface ListFieldProps {
   fieldErrors: Record<string, string>
   validatingFields: Set<string>
   loadingStates: Record<string, boolean>
+  // Called when items are moved or removed so index-keyed state (e.g., errors) can follow them
+  onListItemsMove?: (listBinding: string, indexMap: Record<number, number | null>) => void
 }
 
 export const ListField: React.FC<ListFieldProps> = ({
   field,
   value,
+  onChange,
   error,
   sourceData,
   isLoadingSource = false,
@@ -34,6 +38,7 @@ export const ListField: React.FC<ListFieldProps> = ({
   fieldErrors,
   validatingFields,
   loadingStates,
+  onListItemsMove,
 }) => {
   const Label = () => (
     <label className="form-design-field-label">
@@ -56,6 +61,59 @@ export const ListField: React.FC<ListFieldProps> = ({
   // Get nested fields for list items
   const nestedFields = field.fields || []
 
+  // Respect minItems/maxItems when offering add/remove controls
+  const canAdd = field.maxItems === undefined || items.length < field.maxItems
+  const canRemove = field.minItems === undefined || items.length > field.minItems
+
+  // Apply a new item array, remapping index-keyed state first if items shifted
+  const commitItems = (newItems: any[], indexMap?: Record<number, number | null>) => {
+    if (indexMap && Object.keys(indexMap).length > 0 && onListItemsMove) {
+      onListItemsMove(field.binding, indexMap)
+    }
+    onChange(newItems)
+  }
+
+  const handleAdd = () => {
+    commitItems([...items, createListItem(field)])
+  }
+
+  const handleRemove = (index: number) => {
+    const indexMap: Record<number, number | null> = { [index]: null }
+    for (let i = index + 1; i < items.length; i++) {
+      indexMap[i] = i - 1
+    }
+    commitItems(items.filter((_: any, i: number) => i !== index), indexMap)
+  }
+
+  const handleDuplicate = (index: number) => {
+    const copy = { ...items[index], $id: createListItemId(field) }
+    const indexMap: Record<number, number | null> = {}
+    for (let i = index + 1; i < items.length; i++) {
+      indexMap[i] = i + 1
+    }
+    commitItems([...items.slice(0, index + 1), copy, ...items.slice(index + 1)], indexMap)
+  }
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= items.length) return
+    const newItems = [...items]
+    newItems[index] = items[target]
+    newItems[target] = items[index]
+    commitItems(newItems, { [index]: target, [target]: index })
+  }
+
+  const AddButton = () => (
+    <button
+      type="button"
+      onClick={handleAdd}
+      disabled={!canAdd}
+      className="form-design-field-list-add"
+    >
+      + Add {field.fieldName}
+    </button>
+  )
+
   if (nestedFields.length === 0) {
     console.warn(`[ListField] Field "${field.fieldName}" has type "List" but no nested fields defined`)
     return (
@@ -87,6 +145,7 @@ export const ListField: React.FC<ListFieldProps> = ({
         <div className="form-design-field-list-empty">
           <p>No {field.fieldName.toLowerCase()} found</p>
         </div>
+        <AddButton />
         <ErrorMsg />
       </>
     )
@@ -110,24 +169,50 @@ export const ListField: React.FC<ListFieldProps> = ({
                 <h4 className="form-design-field-list-item-title">
                   {field.fieldName} #{index + 1}
                 </h4>
+                <div className="form-design-field-list-item-actions">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="form-design-field-list-item-action"
+                    aria-label={`Move ${field.fieldName} #${index + 1} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="form-design-field-list-item-action"
+                    aria-label={`Move ${field.fieldName} #${index + 1} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDuplicate(index)}
+                    disabled={!canAdd}
+                    className="form-design-field-list-item-action"
+                    aria-label={`Duplicate ${field.fieldName} #${index + 1}`}
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(index)}
+                    disabled={!canRemove}
+                    className="form-design-field-list-item-action form-design-field-list-item-remove"
+                    aria-label={`Remove ${field.fieldName} #${index + 1}`}
+                  >
+                    Remove
+                  </button>
+                </div>
               </div>
               <div className="form-design-field-list-item-content">
                 {nestedFields.map((nestedField, nestedIdx) => {
                   // Extract the property name from nested field binding
                   // If nestedField.binding is "experienceItem.employer", extract "employer"
-                  // The itemObject prefix (e.g., "experienceItem") is used for organization
-                  // but the actual property name is what we need
-                  let nestedProperty: string
-                  if (field.itemObject && nestedField.binding.startsWith(`${field.itemObject}.`)) {
-                    // Remove the itemObject prefix: "experienceItem.employer" -> "employer"
-                    nestedProperty = nestedField.binding.replace(`${field.itemObject}.`, '')
-                  } else if (nestedField.binding.includes('.')) {
-                    // If it has a dot but doesn't match itemObject, use the last part
-                    nestedProperty = nestedField.binding.split('.').pop() || nestedField.binding
-                  } else {
-                    // No prefix, use as-is
-                    nestedProperty = nestedField.binding
-                  }
+                  const nestedProperty = getListItemProperty(field, nestedField)
                   
                   // Build binding path for nested field using BindingResolver
                   // This ensures consistent path construction: "object.userExperience[0].employer"
@@ -140,6 +225,7 @@ export const ListField: React.FC<ListFieldProps> = ({
                     <FormField
                       key={`${itemKey}-${nestedProperty}-${nestedIdx}`}
                       field={nestedField}
+                      bindingPath={nestedBinding}
                       value={nestedValue}
                       onChange={(val) => onFieldChange(nestedBinding, val)}
                       onBlur={(val) => onFieldBlur(nestedBinding, val)}
@@ -155,6 +241,7 @@ export const ListField: React.FC<ListFieldProps> = ({
           )
         })}
       </div>
+      <AddButton />
       <ErrorMsg />
     </>
   )
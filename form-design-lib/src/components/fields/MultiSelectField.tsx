@@ -1,5 +1,6 @@
 import React from 'react'
 import { FormField as FormFieldType } from '../../types'
+import { getFieldOptions } from '../../utils/options'
 import { AlertCircleIcon, LoaderIcon } from '../Icons'
 
 export interface MultiSelectFieldProps {
@@ -37,8 +38,7 @@ export const MultiSelectField: React.FC<MultiSelectFieldProps> = ({
       </p>
     ) : null
 
-  const optionsData = sourceData[field.optionsSource || '']
-  const options = Array.isArray(optionsData) ? optionsData : []
+  const options = getFieldOptions(field, sourceData)
   
   // Ensure value is always an array
   const selectedValues = Array.isArray(value) ? value : value ? [value] : []
@@ -1,5 +1,6 @@
 import React from 'react'
 import { FormField as FormFieldType } from '../../types'
+import { getFieldOptions } from '../../utils/options'
 import { AlertCircleIcon } from '../Icons'
 
 export interface RadioFieldProps {
@@ -37,8 +38,7 @@ export const RadioField: React.FC<RadioFieldProps> = ({
       </p>
     ) : null
 
-  const optionsData = sourceData[field.optionsSource || '']
-  const options = Array.isArray(optionsData) ? optionsData : []
+  const options = getFieldOptions(field, sourceData)
   const layout = field.radioLayout || 'vertical'
 
   return (
@@ -0,0 +1,184 @@
+import type { FormField as FormFieldType } from '../types'
+import { ExpressionEvaluator, defaultExpressionEvaluator } from './ExpressionEvaluator'
+import { BindingResolver, defaultBindingResolver } from './BindingResolver'
+
+/**
+ * Function that derives a computed field value from the store
+ * @param store - The entire form store
+ * @param field - The computed field configuration
+ * @returns The computed value
+ */
+export type ComputeFunction = (store: Record<string, any>, field: FormFieldType) => any
+
+/**
+ * Check if two binding paths overlap (one is the other, or contains it)
+ * "[*]" wildcards are cut off, so "object.lineItems[*].amount" overlaps "object.lineItems"
+ */
+function pathsOverlap(a: string, b: string): boolean {
+  const normalize = (path: string) => path.split('[*]')[0]
+  const left = normalize(a)
+  const right = normalize(b)
+  const contains = (outer: string, inner: string) =>
+    inner === outer || inner.startsWith(`${outer}.`) || inner.startsWith(`${outer}[`)
+  return contains(left, right) || contains(right, left)
+}
+
+/**
+ * Computed Field Engine
+ *
+ * Derives field values from other store values. A field is computed when it declares `compute`:
+ * - an expression: `compute: "object.firstName + ' ' + object.lastName"`
+ * - a registered function: `compute: { function: 'age', dependsOn: ['object.birthDate'] }`
+ *
+ * Computed fields are evaluated in dependency order (a computed field may read another one)
+ * and only recomputed when one of their inputs, or their own value, changed. Circular dependencies are rejected.
+ *
+ * @example
+ * ```typescript
+ * const engine = new ComputedFieldEngine()
+ * engine.registerFunction('age', (store) => yearsSince(store.object.birthDate))
+ *
+ * const ordered = engine.sortFields(config.fields)
+ * const nextStore = engine.apply(ordered, store)
+ * ```
+ */
+export class ComputedFieldEngine {
+  private functions: Map<string, ComputeFunction> = new Map()
+
+  constructor(
+    private evaluator: ExpressionEvaluator = defaultExpressionEvaluator,
+    private bindingResolver: BindingResolver = defaultBindingResolver
+  ) {}
+
+  /**
+   * Register a compute function
+   * @param name - The name referenced by `compute.function`
+   * @param fn - The implementation
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a function with the same name is already registered and override is false
+   */
+  registerFunction(name: string, fn: ComputeFunction, override: boolean = false): void {
+    if (this.functions.has(name) && !override) {
+      throw new Error(
+        `Compute function "${name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.functions.set(name, fn)
+  }
+
+  /**
+   * Check if a compute function is registered
+   * @param name - The function name
+   * @returns True if the function is registered, false otherwise
+   */
+  hasFunction(name: string): boolean {
+    return this.functions.has(name)
+  }
+
+  /**
+   * Get the binding paths a computed field reads from
+   * @param field - The computed field configuration
+   * @returns Input paths (empty for non-computed fields)
+   */
+  getDependencies(field: FormFieldType): string[] {
+    if (!field.compute) return []
+    if (typeof field.compute === 'string') {
+      return this.evaluator.getDependencies(field.compute)
+    }
+    return field.compute.dependsOn || []
+  }
+
+  /**
+   * Get the computed fields in evaluation order (inputs before the fields that read them)
+   * @param fields - The form fields
+   * @returns Computed fields sorted by dependency
+   * @throws Error if computed fields depend on each other in a cycle
+   */
+  sortFields(fields: FormFieldType[]): FormFieldType[] {
+    const computed = fields.filter((field) => field.compute)
+    const sorted: FormFieldType[] = []
+    const state = new Map<FormFieldType, 'visiting' | 'done'>()
+
+    const visit = (field: FormFieldType, trail: FormFieldType[]) => {
+      if (state.get(field) === 'done') return
+      if (state.get(field) === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(field)), field].map((f) => f.binding)
+        throw new Error(`Circular computed field dependency: ${cycle.join(' -> ')}`)
+      }
+
+      state.set(field, 'visiting')
+      const dependencies = this.getDependencies(field)
+      computed
+        .filter((other) => dependencies.some((path) => pathsOverlap(path, other.binding)))
+        .forEach((input) => visit(input, [...trail, field]))
+      state.set(field, 'done')
+      sorted.push(field)
+    }
+
+    computed.forEach((field) => visit(field, []))
+    return sorted
+  }
+
+  /**
+   * Compute the value of a single computed field
+   * @param field - The computed field configuration
+   * @param store - The entire form store
+   * @returns The computed value
+   * @throws Error if the compute function is not registered
+   */
+  computeValue(field: FormFieldType, store: Record<string, any>): any {
+    if (!field.compute) return undefined
+    if (typeof field.compute === 'string') {
+      return this.evaluator.evaluate(field.compute, store)
+    }
+
+    const fn = this.functions.get(field.compute.function)
+    if (!fn) {
+      throw new Error(`Compute function "${field.compute.function}" is not registered`)
+    }
+    return fn(store, field)
+  }
+
+  /**
+   * Apply all computed values to the store
+   * @param sortedFields - Computed fields in evaluation order (from sortFields)
+   * @param store - The entire form store
+   * @param inputCache - Optional map of the last input signature per binding; fields whose
+   *                     inputs and value did not change since the previous call are skipped
+   * @returns A new store if any computed value changed, otherwise the same store instance
+   */
+  apply(
+    sortedFields: FormFieldType[],
+    store: Record<string, any>,
+    inputCache?: Map<string, string>
+  ): Record<string, any> {
+    let nextStore = store
+
+    for (const field of sortedFields) {
+      try {
+        const current = this.bindingResolver.resolve(field.binding, nextStore)
+        // The signature covers the inputs and the value in the store, so a value written over the
+        // last result (e.g., by a source response) is recomputed even when the inputs are unchanged
+        const inputs = inputCache
+          ? this.getDependencies(field).map((path) => this.evaluator.evaluate(path, nextStore))
+          : []
+        if (inputCache && inputCache.get(field.binding) === JSON.stringify([inputs, current])) continue
+
+        const value = this.computeValue(field, nextStore)
+        if (JSON.stringify(value) !== JSON.stringify(current)) {
+          nextStore = this.bindingResolver.set(field.binding, value, nextStore)
+        }
+        inputCache?.set(field.binding, JSON.stringify([inputs, value]))
+      } catch (error) {
+        console.error(`[ComputedFieldEngine] Failed to compute ${field.binding}:`, error)
+      }
+    }
+
+    return nextStore
+  }
+}
+
+/**
+ * Default computed field engine instance
+ */
+export const defaultComputedFieldEngine = new ComputedFieldEngine()
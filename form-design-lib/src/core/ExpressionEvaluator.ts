@@ -0,0 +1,330 @@
+import { BindingResolver, defaultBindingResolver } from './BindingResolver'
+import { ExpressionError, ExpressionNode, parseExpression } from './expression/ExpressionParser'
+import { getNestedValue } from '../utils/nestedValue'
+
+/**
+ * Function callable from expressions (e.g., len(object.items))
+ */
+export type ExpressionFunction = (...args: any[]) => any
+
+/**
+ * Convert a value to a number for arithmetic and comparisons
+ */
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value
+  if (value === null || value === undefined || value === '') return 0
+  return Number(value)
+}
+
+/**
+ * Check if a value is a number or a numeric string
+ */
+function isNumeric(value: any): boolean {
+  if (typeof value === 'number') return true
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+}
+
+/**
+ * Equality used by == and !=
+ * Strict, except that null equals undefined and numbers equal numeric strings ("18" == 18)
+ */
+function looseEquals(left: any, right: any): boolean {
+  if (left === right) return true
+  if ((left === null || left === undefined) && (right === null || right === undefined)) return true
+  if ((typeof left === 'number' || typeof right === 'number') && isNumeric(left) && isNumeric(right)) {
+    return Number(left) === Number(right)
+  }
+  return false
+}
+
+/**
+ * Ordering used by < <= > >=: numeric when both sides are numeric, otherwise string comparison
+ */
+export function compareValues(left: any, right: any): number {
+  if (isNumeric(left) && isNumeric(right)) {
+    return Number(left) - Number(right)
+  }
+  const a = String(left ?? '')
+  const b = String(right ?? '')
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Built-in expression functions
+ */
+const builtInFunctions: Record<string, ExpressionFunction> = {
+  len: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  isEmpty: (value) =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0),
+  lower: (value) => String(value ?? '').toLowerCase(),
+  upper: (value) => String(value ?? '').toUpperCase(),
+  trim: (value) => String(value ?? '').trim(),
+  contains: (haystack, needle) =>
+    Array.isArray(haystack)
+      ? haystack.some((item) => looseEquals(item, needle))
+      : String(haystack ?? '').includes(String(needle ?? '')),
+  startsWith: (value, prefix) => String(value ?? '').startsWith(String(prefix ?? '')),
+  endsWith: (value, suffix) => String(value ?? '').endsWith(String(suffix ?? '')),
+  matches: (value, pattern) => new RegExp(String(pattern)).test(String(value ?? '')),
+  number: (value) => toNumber(value),
+  string: (value) => (value === undefined || value === null ? '' : String(value)),
+  concat: (...values) => values.map((value) => (value === undefined || value === null ? '' : String(value))).join(''),
+  abs: (value) => Math.abs(toNumber(value)),
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, toNumber(digits))
+    return Math.round(toNumber(value) * factor) / factor
+  },
+  min: (...values) => Math.min(...values.flat().map(toNumber)),
+  max: (...values) => Math.max(...values.flat().map(toNumber)),
+  sum: (values) => (Array.isArray(values) ? values.reduce((total, value) => total + toNumber(value), 0) : toNumber(values)),
+  today: () => new Date().toISOString().slice(0, 10),
+  now: () => new Date().toISOString(),
+  yearsSince: (value) => {
+    const date = new Date(value)
+    if (value === undefined || value === null || value === '' || isNaN(date.getTime())) return null
+    const today = new Date()
+    const years = today.getFullYear() - date.getFullYear()
+    const beforeAnniversary =
+      today.getMonth() < date.getMonth() || (today.getMonth() === date.getMonth() && today.getDate() < date.getDate())
+    return beforeAnniversary ? years - 1 : years
+  },
+}
+
+/**
+ * Expression Evaluator
+ *
+ * Evaluates serializable expressions (stored as plain strings in JSON configs) against the form store.
+ * Paths are resolved through BindingResolver; only registered functions can be called
+ * and nothing is ever passed to eval.
+ *
+ * Local variables (e.g., `value` for validation or `option` for option filtering) take
+ * precedence over store paths with the same root name.
+ *
+ * @example
+ * ```typescript
+ * const evaluator = new ExpressionEvaluator()
+ * evaluator.evaluate("object.country == 'US' && object.age >= 18", store) // true
+ * evaluator.evaluate('len(value) >= 3', store, { value: 'abc' }) // true
+ * ```
+ */
+export class ExpressionEvaluator {
+  private functions: Map<string, ExpressionFunction> = new Map()
+  private cache: Map<string, ExpressionNode> = new Map()
+
+  constructor(private bindingResolver: BindingResolver = defaultBindingResolver) {
+    Object.entries(builtInFunctions).forEach(([name, fn]) => this.registerFunction(name, fn))
+  }
+
+  /**
+   * Register a function callable from expressions
+   * @param name - The function name used in expressions
+   * @param fn - The implementation
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a function with the same name is already registered and override is false
+   */
+  registerFunction(name: string, fn: ExpressionFunction, override: boolean = false): void {
+    if (this.functions.has(name) && !override) {
+      throw new Error(
+        `Expression function "${name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.functions.set(name, fn)
+  }
+
+  /**
+   * Check if an expression function is registered
+   * @param name - The function name
+   * @returns True if the function is registered, false otherwise
+   */
+  hasFunction(name: string): boolean {
+    return this.functions.has(name)
+  }
+
+  /**
+   * Parse an expression (results are cached per expression string)
+   * @param expression - The expression source
+   * @returns The parsed AST
+   * @throws ExpressionError if the expression is not valid
+   */
+  compile(expression: string): ExpressionNode {
+    let node = this.cache.get(expression)
+    if (!node) {
+      node = parseExpression(expression)
+      this.cache.set(expression, node)
+    }
+    return node
+  }
+
+  /**
+   * Evaluate an expression
+   * @param expression - The expression source
+   * @param store - The entire form store
+   * @param locals - Local variables available to the expression (e.g., { value })
+   * @returns The expression result
+   * @throws ExpressionError on syntax errors or calls to unknown functions
+   */
+  evaluate(expression: string, store: Record<string, any>, locals: Record<string, any> = {}): any {
+    return this.evaluateNode(this.compile(expression), expression, store, locals)
+  }
+
+  /**
+   * Evaluate an expression as a boolean condition
+   * Invalid expressions are reported and resolve to `fallback`, so a typo in a config cannot break the form.
+   * @param expression - The expression source
+   * @param store - The entire form store
+   * @param locals - Local variables available to the expression
+   * @param fallback - Result used when the expression fails (default: false)
+   * @returns Whether the expression result is truthy
+   */
+  evaluateCondition(
+    expression: string,
+    store: Record<string, any>,
+    locals: Record<string, any> = {},
+    fallback: boolean = false
+  ): boolean {
+    try {
+      return !!this.evaluate(expression, store, locals)
+    } catch (error) {
+      console.error(`[ExpressionEvaluator] Failed to evaluate "${expression}":`, error)
+      return fallback
+    }
+  }
+
+  /**
+   * Get the binding paths an expression reads from
+   * @param expression - The expression source
+   * @returns Unique paths (e.g., ["object.country", "object.age"])
+   */
+  getDependencies(expression: string): string[] {
+    const paths = new Set<string>()
+    const visit = (node: ExpressionNode): void => {
+      switch (node.type) {
+        case 'Path':
+          paths.add(node.path)
+          break
+        case 'Array':
+          node.elements.forEach(visit)
+          break
+        case 'Unary':
+          visit(node.argument)
+          break
+        case 'Binary':
+        case 'Logical':
+          visit(node.left)
+          visit(node.right)
+          break
+        case 'Conditional':
+          visit(node.test)
+          visit(node.consequent)
+          visit(node.alternate)
+          break
+        case 'Call':
+          node.args.forEach(visit)
+          break
+      }
+    }
+    visit(this.compile(expression))
+    return Array.from(paths)
+  }
+
+  /**
+   * Resolve a path against locals or the store
+   * A "[*]" segment maps the rest of the path over every array item.
+   */
+  private resolvePath(path: string, store: Record<string, any>, locals: Record<string, any>): any {
+    const wildcardIndex = path.indexOf('[*]')
+    if (wildcardIndex !== -1) {
+      const items = this.resolvePath(path.slice(0, wildcardIndex), store, locals)
+      const rest = path.slice(wildcardIndex + 3)
+      if (!Array.isArray(items)) return []
+      // Resolve the remaining path on each item (it may contain further wildcards)
+      return items.map((item) => (rest ? this.resolvePath(`$item${rest}`, store, { $item: item }) : item))
+    }
+
+    const root = path.split(/[.[]/)[0]
+    if (Object.prototype.hasOwnProperty.call(locals, root)) {
+      const rest = path.slice(root.length).replace(/^\./, '')
+      return rest ? getNestedValue(locals[root], rest) : locals[root]
+    }
+    return this.bindingResolver.resolve(path, store)
+  }
+
+  private evaluateNode(
+    node: ExpressionNode,
+    expression: string,
+    store: Record<string, any>,
+    locals: Record<string, any>
+  ): any {
+    const evaluate = (child: ExpressionNode) => this.evaluateNode(child, expression, store, locals)
+
+    switch (node.type) {
+      case 'Literal':
+        return node.value
+      case 'Path':
+        return this.resolvePath(node.path, store, locals)
+      case 'Array':
+        return node.elements.map(evaluate)
+      case 'Unary':
+        return node.operator === '!' ? !evaluate(node.argument) : -toNumber(evaluate(node.argument))
+      case 'Logical': {
+        const left = evaluate(node.left)
+        if (node.operator === '&&') return left ? evaluate(node.right) : left
+        return left ? left : evaluate(node.right)
+      }
+      case 'Conditional':
+        return evaluate(node.test) ? evaluate(node.consequent) : evaluate(node.alternate)
+      case 'Call': {
+        const fn = this.functions.get(node.name)
+        if (!fn) {
+          throw new ExpressionError(`Unknown function "${node.name}"`, expression)
+        }
+        return fn(...node.args.map(evaluate))
+      }
+      case 'Binary': {
+        const left = evaluate(node.left)
+        const right = evaluate(node.right)
+        switch (node.operator) {
+          case '+':
+            return typeof left === 'string' || typeof right === 'string'
+              ? `${left ?? ''}${right ?? ''}`
+              : toNumber(left) + toNumber(right)
+          case '-':
+            return toNumber(left) - toNumber(right)
+          case '*':
+            return toNumber(left) * toNumber(right)
+          case '/':
+            return toNumber(left) / toNumber(right)
+          case '%':
+            return toNumber(left) % toNumber(right)
+          case '==':
+            return looseEquals(left, right)
+          case '!=':
+            return !looseEquals(left, right)
+          case '===':
+            return left === right
+          case '!==':
+            return left !== right
+          case '<':
+            return compareValues(left, right) < 0
+          case '<=':
+            return compareValues(left, right) <= 0
+          case '>':
+            return compareValues(left, right) > 0
+          case '>=':
+            return compareValues(left, right) >= 0
+          case 'in':
+            if (Array.isArray(right)) return right.some((item) => looseEquals(left, item))
+            if (typeof right === 'string') return right.includes(String(left ?? ''))
+            return false
+          default:
+            throw new ExpressionError(`Unknown operator "${node.operator}"`, expression)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Default expression evaluator instance
+ */
+export const defaultExpressionEvaluator = new ExpressionEvaluator()
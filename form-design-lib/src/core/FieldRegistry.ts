@@ -20,6 +20,10 @@ export interface BaseFieldProps {
   fieldErrors?: Record<string, string>
   validatingFields?: Set<string>
   loadingStates?: Record<string, boolean>
+  onListItemsMove?: (listBinding: string, indexMap: Record<number, number | null>) => void
+  // Dirty/touched state of the field
+  isTouched?: boolean
+  isDirty?: boolean
 }
 
 /**
@@ -27,6 +31,48 @@ export interface BaseFieldProps {
  */
 export type FieldComponent = React.ComponentType<BaseFieldProps>
 
+export type FieldPropertyType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'function'
+
+/**
+ * Describes a FormField property supported by a field type
+ */
+export interface FieldPropertyMeta {
+  type: FieldPropertyType | FieldPropertyType[]
+  description: string
+  default?: any // Value used when the property is not set
+  enum?: readonly any[] // Allowed values (for arrays: allowed items)
+  // Meaning of string values (for arrays: of their items)
+  format?: 'binding' | 'expression' | 'source' | 'regex' | 'date' | 'mime'
+}
+
+/**
+ * Type of the value a field type stores at its binding
+ */
+export type FieldValueType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'dateRange'
+  | 'array'
+  | 'file'
+  | 'object[]'
+  | 'any'
+
+/**
+ * Describes a field type for visual builders, config linters and docs generators
+ */
+export interface FieldTypeMeta {
+  displayName: string
+  description?: string
+  category?: string // Grouping in a builder palette (built-ins: 'Text', 'Number', 'Choice', 'Date', 'File', 'Collection')
+  icon?: string // Icon identifier (e.g., 'calendar')
+  valueType?: FieldValueType
+  defaultValue?: any // Empty value of the field (used when the field is reset)
+  properties?: Record<string, FieldPropertyMeta> // Supported FormField properties by name
+  validationRules?: string[] // Names of the built-in validation rules that can apply (see validationRules.ts)
+}
+
 /**
  * Field Registry
  * 
@@ -38,6 +84,7 @@ export type FieldComponent = React.ComponentType<BaseFieldProps>
  * const registry = new FieldRegistry()
  * registry.register('Text', TextField)
  * registry.register('CustomField', CustomField) // External plugin
+ * registry.register('Rating', RatingField, { displayName: 'Rating', valueType: 'number', defaultValue: 0 })
  * 
  * const Component = registry.get('Text')
  * if (Component) {
@@ -47,25 +94,38 @@ export type FieldComponent = React.ComponentType<BaseFieldProps>
  */
 export class FieldRegistry {
   private fields: Map<FieldType | string, FieldComponent> = new Map()
+  private meta: Map<FieldType | string, FieldTypeMeta> = new Map()
 
   /**
    * Register a field component for a given field type
    * @param fieldType - The field type identifier (can be a built-in FieldType or custom string)
    * @param component - The React component to render for this field type
+   * @param meta - Optional metadata describing the field type (supported properties, defaults, ...)
    * @param override - If true, allows overriding existing registrations (default: false)
    * @throws Error if field type is already registered and override is false
    */
+  register(fieldType: FieldType | string, component: FieldComponent, override?: boolean): void
+  register(fieldType: FieldType | string, component: FieldComponent, meta: FieldTypeMeta, override?: boolean): void
   register(
     fieldType: FieldType | string,
     component: FieldComponent,
+    metaOrOverride?: FieldTypeMeta | boolean,
     override: boolean = false
   ): void {
-    if (this.fields.has(fieldType) && !override) {
+    const meta = typeof metaOrOverride === 'object' ? metaOrOverride : undefined
+    const allowOverride = typeof metaOrOverride === 'boolean' ? metaOrOverride : override
+
+    if (this.fields.has(fieldType) && !allowOverride) {
       throw new Error(
         `Field type "${fieldType}" is already registered. Use override=true to replace it.`
       )
     }
     this.fields.set(fieldType, component)
+    if (meta) {
+      this.meta.set(fieldType, meta)
+    } else {
+      this.meta.delete(fieldType)
+    }
   }
 
   /**
@@ -95,6 +155,23 @@ export class FieldRegistry {
     return this.fields.get(fieldType)
   }
 
+  /**
+   * Get the metadata of a field type
+   * @param fieldType - The field type identifier
+   * @returns The registered metadata, or undefined if the type has none
+   */
+  getMeta(fieldType: FieldType | string): FieldTypeMeta | undefined {
+    return this.meta.get(fieldType)
+  }
+
+  /**
+   * Get the metadata of all field types registered with metadata
+   * @returns Map of field types to metadata
+   */
+  getAllMeta(): Map<FieldType | string, FieldTypeMeta> {
+    return new Map(this.meta)
+  }
+
   /**
    * Check if a field type is registered
    * @param fieldType - The field type identifier
@@ -110,6 +187,7 @@ export class FieldRegistry {
    * @returns True if the field type was registered and removed, false otherwise
    */
   unregister(fieldType: FieldType | string): boolean {
+    this.meta.delete(fieldType)
     return this.fields.delete(fieldType)
   }
 
@@ -134,6 +212,7 @@ export class FieldRegistry {
    */
   clear(): void {
     this.fields.clear()
+    this.meta.clear()
   }
 
   /**
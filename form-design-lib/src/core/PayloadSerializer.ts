@@ -0,0 +1,254 @@
+import type { FormConfig, FormField as FormFieldType } from '../types'
+import { getNestedValue } from '../utils/nestedValue'
+import { isFieldVisible } from '../utils/visibility'
+import { getListItemBinding, resolveListItems } from '../utils/listItems'
+import { builtInOutputTransforms } from './outputTransforms'
+import { DEFAULT_DATA_SOURCE } from '../utils/dataSource'
+
+/**
+ * Converts a field value into its submitted form (e.g., a Date into an ISO string)
+ * @param value - The field value (never empty: undefined, null and '' are not transformed)
+ * @param field - The field configuration
+ * @returns The value to submit
+ */
+export type OutputTransform = (value: any, field: FormFieldType) => any
+
+export interface SerializeOptions {
+  /**
+   * Source holding the form data (default: 'object')
+   */
+  dataSource?: string
+  /**
+   * Override the visibility check (default: isFieldVisible)
+   */
+  isVisible?: (field: FormFieldType, store: Record<string, any>) => boolean
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+
+/**
+ * Internal (UI-only) keys start with "$", e.g. the "$id" used as React key for List items
+ */
+const isInternalKey = (key: string) => key.startsWith('$')
+
+/**
+ * Deep copy plain objects and arrays without internal keys
+ * Other values (File, Date, ...) are kept by reference.
+ */
+function cloneWithoutInternalKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(cloneWithoutInternalKeys)
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, any> = {}
+    Object.entries(value).forEach(([key, item]) => {
+      if (!isInternalKey(key)) copy[key] = cloneWithoutInternalKeys(item)
+    })
+    return copy
+  }
+  return value
+}
+
+function toKeys(path: string): string[] {
+  return path.replace(/\[(\d+)\]/g, '.$1').split('.').filter((key) => key !== '')
+}
+
+/**
+ * Get the path of a binding relative to the data source, or undefined if it belongs to another source
+ */
+function getRelativePath(binding: string, dataSource: string): string | undefined {
+  if (binding.startsWith(`${dataSource}.`)) return binding.slice(dataSource.length + 1)
+  if (binding.startsWith(`${dataSource}[`)) return binding.slice(dataSource.length)
+  return undefined
+}
+
+/**
+ * Set a value in place, creating intermediate objects/arrays
+ */
+function setInPlace(target: Record<string, any>, path: string, value: any): void {
+  const keys = toKeys(path)
+  let current: any = target
+  keys.slice(0, -1).forEach((key, index) => {
+    if (current[key] === undefined || current[key] === null || typeof current[key] !== 'object') {
+      current[key] = /^\d+$/.test(keys[index + 1]) ? [] : {}
+    }
+    current = current[key]
+  })
+  current[keys[keys.length - 1]] = value
+}
+
+/**
+ * Check if a path is another path or one of its descendants (e.g., "address.country" within "address")
+ */
+function isWithinPath(path: string, ancestor: string): boolean {
+  const keys = toKeys(path)
+  return toKeys(ancestor).every((key, index) => keys[index] === key)
+}
+
+/**
+ * Delete a value in place (no-op if the path does not exist)
+ */
+function deleteInPlace(target: Record<string, any>, path: string): void {
+  const keys = toKeys(path)
+  const parent = keys.slice(0, -1).reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), target)
+  if (parent && typeof parent === 'object') {
+    delete parent[keys[keys.length - 1]]
+  }
+}
+
+/**
+ * Payload Serializer
+ *
+ * Builds the submitted payload from the form data:
+ * 1. Removes internal keys (any key starting with "$", such as the List item "$id")
+ * 2. Omits the values of hidden fields (unless a visible field binds the same value or a value within it)
+ * 3. Applies each field's `output` transform (a registered transform name or a function)
+ *
+ * @example
+ * ```typescript
+ * const serializer = new PayloadSerializer(builtInOutputTransforms)
+ * serializer.register('cents', (value) => Math.round(Number(value) * 100))
+ *
+ * // { fieldName: 'Price', fieldType: 'Number', binding: 'object.price', output: 'cents' }
+ * const payload = serializer.serialize(config, store)
+ * ```
+ */
+export class PayloadSerializer {
+  private transforms: Map<string, OutputTransform> = new Map()
+
+  constructor(transforms: Record<string, OutputTransform> = {}) {
+    Object.entries(transforms).forEach(([name, transform]) => this.register(name, transform))
+  }
+
+  /**
+   * Register a named output transform
+   * @param name - The name referenced by `field.output`
+   * @param transform - The transform implementation
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a transform with the same name is already registered and override is false
+   */
+  register(name: string, transform: OutputTransform, override: boolean = false): void {
+    if (this.transforms.has(name) && !override) {
+      throw new Error(
+        `Output transform "${name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.transforms.set(name, transform)
+  }
+
+  /**
+   * Get an output transform by name
+   * @param name - The transform name
+   * @returns The registered transform, or undefined if not found
+   */
+  get(name: string): OutputTransform | undefined {
+    return this.transforms.get(name)
+  }
+
+  /**
+   * Check if an output transform is registered
+   * @param name - The transform name
+   * @returns True if the transform is registered, false otherwise
+   */
+  has(name: string): boolean {
+    return this.transforms.has(name)
+  }
+
+  /**
+   * Unregister an output transform
+   * @param name - The transform name
+   * @returns True if the transform was registered and removed, false otherwise
+   */
+  unregister(name: string): boolean {
+    return this.transforms.delete(name)
+  }
+
+  /**
+   * Get all registered transform names
+   * @returns Array of transform names
+   */
+  getRegisteredTransforms(): string[] {
+    return Array.from(this.transforms.keys())
+  }
+
+  /**
+   * Apply a field's output transform to a value
+   * @param field - The field configuration
+   * @param value - The field value
+   * @returns The transformed value (empty values and fields without `output` are returned as-is)
+   * @throws Error if the field references an unregistered transform
+   */
+  transformValue(field: FormFieldType, value: any): any {
+    if (!field.output || value === undefined || value === null || value === '') return value
+
+    const transform = typeof field.output === 'function' ? field.output : this.transforms.get(field.output)
+    if (!transform) {
+      throw new Error(`Output transform "${field.output}" is not registered`)
+    }
+    return transform(value, field)
+  }
+
+  /**
+   * Serialize the form data for submission
+   * @param config - The form configuration (only fields are used)
+   * @param store - The entire form store
+   * @param options - Data source and visibility check
+   * @returns The payload (a new object; the store is not modified)
+   */
+  serialize(
+    config: Pick<FormConfig, 'fields'>,
+    store: Record<string, any>,
+    options: SerializeOptions = {}
+  ): Record<string, any> {
+    const { dataSource = DEFAULT_DATA_SOURCE, isVisible = isFieldVisible } = options
+    const payload = cloneWithoutInternalKeys(store[dataSource] ?? {})
+    // Hidden values are deleted once every visible path is known
+    const hiddenPaths: string[] = []
+    const visiblePaths: string[] = []
+
+    const serializeFields = (fields: FormFieldType[]) => {
+      fields.forEach((field) => {
+        const path = getRelativePath(field.binding, dataSource)
+        if (path === undefined) return
+
+        if (!isVisible(field, store)) {
+          hiddenPaths.push(path)
+          return
+        }
+        visiblePaths.push(path)
+
+        if (field.fieldType === 'List') {
+          // Items may still come from listSource when the binding was never edited
+          const items = cloneWithoutInternalKeys(resolveListItems(field, store))
+          setInPlace(payload, path, items)
+          items.forEach((_: any, index: number) =>
+            serializeFields(
+              (field.fields || []).map((nestedField) => ({
+                ...nestedField,
+                binding: getListItemBinding(field, index, nestedField),
+              }))
+            )
+          )
+          return
+        }
+
+        const value = getNestedValue(payload, path)
+        if (field.output && value !== undefined) {
+          setInPlace(payload, path, this.transformValue(field, value))
+        }
+      })
+    }
+
+    serializeFields(config.fields)
+    hiddenPaths
+      .filter((hiddenPath) => !visiblePaths.some((visiblePath) => isWithinPath(visiblePath, hiddenPath)))
+      .forEach((hiddenPath) => deleteInPlace(payload, hiddenPath))
+    return payload
+  }
+}
+
+/**
+ * Default payload serializer instance with the built-in output transforms
+ */
+export const defaultPayloadSerializer = new PayloadSerializer(builtInOutputTransforms)
@@ -0,0 +1,275 @@
+import { FieldRegistry, defaultFieldRegistry } from './FieldRegistry'
+import type { FieldComponent, FieldTypeMeta } from './FieldRegistry'
+import { ValidationEngine, defaultValidationEngine } from './ValidationEngine'
+import type { ValidationRule } from './ValidationEngine'
+import { PayloadSerializer, defaultPayloadSerializer } from './PayloadSerializer'
+import type { OutputTransform } from './PayloadSerializer'
+import { SourceAdapterRegistry, defaultSourceAdapterRegistry } from './SourceAdapterRegistry'
+import type { SourceAdapter } from './SourceAdapterRegistry'
+
+/**
+ * Registries a plugin installs into
+ */
+export interface PluginTargets {
+  fieldRegistry: FieldRegistry
+  validationEngine: ValidationEngine
+  payloadSerializer: PayloadSerializer
+  sourceAdapters: SourceAdapterRegistry
+}
+
+/**
+ * Bundle of field types, validation rules, output transforms and source types installed together
+ *
+ * Everything a plugin registers is namespaced with the plugin name: the field "Location"
+ * of the plugin "maps" is used as `fieldType: 'maps/Location'`, its transform "geoJson"
+ * as `output: 'maps/geoJson'`, its source type "Geocoder" as `sourceType: 'maps/Geocoder'`.
+ *
+ * @example
+ * ```typescript
+ * const mapsPlugin: FormPlugin = {
+ *   name: 'maps',
+ *   fields: {
+ *     Location: { component: LocationField, meta: { displayName: 'Location', valueType: 'any' } },
+ *   },
+ *   validationRules: [insideServiceAreaRule],
+ *   transforms: { geoJson: (value) => ({ type: 'Point', coordinates: [value.lng, value.lat] }) },
+ * }
+ * ```
+ */
+export interface FormPlugin {
+  // Unique plugin name, used as namespace for everything it registers
+  name: string
+  fields?: Record<string, FieldComponent | { component: FieldComponent; meta?: FieldTypeMeta }>
+  validationRules?: ValidationRule[]
+  transforms?: Record<string, OutputTransform>
+  sourceTypes?: Record<string, SourceAdapter>
+  // Called once after the plugin's registrations, for anything else it needs to set up
+  setup?: (targets: PluginTargets) => void
+}
+
+/**
+ * Get the namespaced name of something a plugin registers
+ * @param pluginName - The plugin name
+ * @param name - The field type, rule, transform or source type name inside the plugin
+ * @returns The registered name (e.g., "maps/Location")
+ */
+export function getPluginKey(pluginName: string, name: string): string {
+  return `${pluginName}/${name}`
+}
+
+interface PluginRegistration {
+  fields: Array<{ fieldType: string; component: FieldComponent; meta?: FieldTypeMeta }>
+  validationRules: ValidationRule[]
+  transforms: Array<{ name: string; transform: OutputTransform }>
+  sourceTypes: Array<{ sourceType: string; adapter: SourceAdapter }>
+}
+
+/**
+ * Resolve the namespaced registrations of a plugin
+ */
+function getRegistration(plugin: FormPlugin): PluginRegistration {
+  return {
+    fields: Object.entries(plugin.fields || {}).map(([name, entry]) => {
+      const { component, meta } = 'component' in entry ? entry : { component: entry, meta: undefined }
+      return { fieldType: getPluginKey(plugin.name, name), component, meta }
+    }),
+    validationRules: (plugin.validationRules || []).map((rule) => ({
+      ...rule,
+      name: getPluginKey(plugin.name, rule.name),
+    })),
+    transforms: Object.entries(plugin.transforms || {}).map(([name, transform]) => ({
+      name: getPluginKey(plugin.name, name),
+      transform,
+    })),
+    sourceTypes: Object.entries(plugin.sourceTypes || {}).map(([name, adapter]) => ({
+      sourceType: getPluginKey(plugin.name, name),
+      adapter,
+    })),
+  }
+}
+
+/**
+ * Plugin Registry
+ *
+ * Installs plugins into a field registry, validation engine, payload serializer and source adapter registry.
+ * A plugin is installed entirely or not at all: conflicts are checked before anything is registered.
+ *
+ * @example
+ * ```typescript
+ * defaultPluginRegistry.install(mapsPlugin)
+ *
+ * // or scoped to one form
+ * <DynamicForm config={config} apiProvider={apiProvider} plugins={[mapsPlugin]} />
+ * ```
+ */
+export class PluginRegistry {
+  private plugins: Map<string, FormPlugin> = new Map()
+
+  constructor(private targets: PluginTargets) {}
+
+  /**
+   * Install a plugin
+   * @param plugin - The plugin to install
+   * @param override - If true, allows replacing an installed plugin and existing registrations (default: false)
+   * @throws Error if the plugin is already installed, or one of its registrations exists, and override is false
+   */
+  install(plugin: FormPlugin, override: boolean = false): void {
+    if (this.plugins.has(plugin.name) && !override) {
+      throw new Error(
+        `Plugin "${plugin.name}" is already installed. Use override=true to replace it.`
+      )
+    }
+
+    const registration = getRegistration(plugin)
+    const { fieldRegistry, validationEngine, payloadSerializer, sourceAdapters } = this.targets
+
+    if (!override) {
+      const conflicts = [
+        ...registration.fields
+          .filter(({ fieldType }) => fieldRegistry.has(fieldType))
+          .map(({ fieldType }) => `field type "${fieldType}"`),
+        ...registration.validationRules
+          .filter((rule) => validationEngine.has(rule.name))
+          .map((rule) => `validation rule "${rule.name}"`),
+        ...registration.transforms
+          .filter(({ name }) => payloadSerializer.has(name))
+          .map(({ name }) => `output transform "${name}"`),
+        ...registration.sourceTypes
+          .filter(({ sourceType }) => sourceAdapters.has(sourceType))
+          .map(({ sourceType }) => `source type "${sourceType}"`),
+      ]
+      if (conflicts.length > 0) {
+        throw new Error(
+          `Plugin "${plugin.name}" conflicts with existing registrations: ${conflicts.join(', ')}. ` +
+          `Use override=true to replace them.`
+        )
+      }
+    }
+
+    if (this.plugins.has(plugin.name)) {
+      this.uninstall(plugin.name)
+    }
+
+    registration.fields.forEach(({ fieldType, component, meta }) => {
+      if (meta) {
+        fieldRegistry.register(fieldType, component, meta, override)
+      } else {
+        fieldRegistry.register(fieldType, component, override)
+      }
+    })
+    validationEngine.registerMany(registration.validationRules, override)
+    registration.transforms.forEach(({ name, transform }) => payloadSerializer.register(name, transform, override))
+    registration.sourceTypes.forEach(({ sourceType, adapter }) => sourceAdapters.register(sourceType, adapter, override))
+
+    this.plugins.set(plugin.name, plugin)
+    if (plugin.setup) {
+      plugin.setup(this.targets)
+    }
+  }
+
+  /**
+   * Install multiple plugins at once, in order
+   * @param plugins - The plugins to install
+   * @param override - If true, allows replacing installed plugins and existing registrations (default: false)
+   */
+  installMany(plugins: FormPlugin[], override: boolean = false): void {
+    plugins.forEach((plugin) => this.install(plugin, override))
+  }
+
+  /**
+   * Uninstall a plugin and remove everything it registered
+   * @param name - The plugin name
+   * @returns True if the plugin was installed and removed, false otherwise
+   */
+  uninstall(name: string): boolean {
+    const plugin = this.plugins.get(name)
+    if (!plugin) return false
+
+    const registration = getRegistration(plugin)
+    registration.fields.forEach(({ fieldType }) => this.targets.fieldRegistry.unregister(fieldType))
+    registration.validationRules.forEach((rule) => this.targets.validationEngine.unregister(rule.name))
+    registration.transforms.forEach(({ name: transformName }) => this.targets.payloadSerializer.unregister(transformName))
+    registration.sourceTypes.forEach(({ sourceType }) => this.targets.sourceAdapters.unregister(sourceType))
+    return this.plugins.delete(name)
+  }
+
+  /**
+   * Get an installed plugin by name
+   * @param name - The plugin name
+   * @returns The installed plugin, or undefined if not found
+   */
+  get(name: string): FormPlugin | undefined {
+    return this.plugins.get(name)
+  }
+
+  /**
+   * Check if a plugin is installed
+   * @param name - The plugin name
+   * @returns True if the plugin is installed, false otherwise
+   */
+  has(name: string): boolean {
+    return this.plugins.has(name)
+  }
+
+  /**
+   * Get all installed plugin names, in installation order
+   * @returns Array of plugin names
+   */
+  getInstalledPlugins(): string[] {
+    return Array.from(this.plugins.keys())
+  }
+
+  /**
+   * Get the registries plugins are installed into
+   * @returns The field registry, validation engine, payload serializer and source adapter registry
+   */
+  getTargets(): PluginTargets {
+    return this.targets
+  }
+}
+
+/**
+ * Copy registries so plugins can be installed for one form without changing the originals
+ * @param base - The registries to copy
+ * @returns New registries with the same registrations
+ */
+export function copyPluginTargets(base: PluginTargets): PluginTargets {
+  const fieldRegistry = new FieldRegistry()
+  base.fieldRegistry.getAll().forEach((component, fieldType) => {
+    const meta = base.fieldRegistry.getMeta(fieldType)
+    if (meta) {
+      fieldRegistry.register(fieldType, component, meta)
+    } else {
+      fieldRegistry.register(fieldType, component)
+    }
+  })
+
+  const validationEngine = new ValidationEngine(
+    base.validationEngine.getRegisteredRules().map((name) => base.validationEngine.get(name)!)
+  )
+
+  const payloadSerializer = new PayloadSerializer(
+    Object.fromEntries(
+      base.payloadSerializer.getRegisteredTransforms().map((name) => [name, base.payloadSerializer.get(name)!])
+    )
+  )
+
+  const sourceAdapters = new SourceAdapterRegistry(
+    Object.fromEntries(
+      base.sourceAdapters.getRegisteredTypes().map((sourceType) => [sourceType, base.sourceAdapters.get(sourceType)!])
+    )
+  )
+
+  return { fieldRegistry, validationEngine, payloadSerializer, sourceAdapters }
+}
+
+/**
+ * Default plugin registry, installing into the default field registry, validation engine,
+ * payload serializer and source adapter registry
+ */
+export const defaultPluginRegistry = new PluginRegistry({
+  fieldRegistry: defaultFieldRegistry,
+  validationEngine: defaultValidationEngine,
+  payloadSerializer: defaultPayloadSerializer,
+  sourceAdapters: defaultSourceAdapterRegistry,
+})
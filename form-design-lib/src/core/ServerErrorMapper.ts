@@ -0,0 +1,215 @@
+import { builtInServerErrorFormats } from './serverErrorFormats'
+import { DEFAULT_DATA_SOURCE } from '../utils/dataSource'
+
+/**
+ * Errors extracted from a server response
+ */
+export interface ServerErrorResult {
+  /**
+   * Error messages keyed by binding path (e.g., "object.userExperience[1].employer")
+   */
+  fieldErrors: Record<string, string>
+  /**
+   * Form-level message shown in a banner (e.g., the problem details title)
+   */
+  formError?: string
+}
+
+/**
+ * A server error payload format
+ * Formats are tried in registration order; the first one that matches the payload is used.
+ */
+export interface ServerErrorFormat {
+  /**
+   * Unique format identifier (e.g., "problemDetails", "errorMap")
+   */
+  name: string
+
+  /**
+   * Check if this format understands the payload
+   * @param payload - The response body (or error object) to inspect
+   */
+  matches(payload: any): boolean
+
+  /**
+   * Extract errors from the payload
+   * Paths may be relative (e.g., "userExperience[1].employer"); the mapper resolves them.
+   * @param payload - The matching payload
+   * @returns Field errors by (raw) path and an optional form-level message
+   */
+  parse(payload: any): ServerErrorResult
+}
+
+export interface MapServerErrorOptions {
+  /**
+   * Source that relative paths belong to (default: 'object')
+   */
+  dataSource?: string
+  /**
+   * Known store roots; paths that already start with one are left unchanged (default: [dataSource])
+   */
+  sourceNames?: string[]
+}
+
+/**
+ * Convert a server error path into a binding path
+ * Accepts dot/bracket paths ("userExperience[1].employer", "userExperience.1.employer"),
+ * JSON Pointers ("/userExperience/1/employer") and JSONPath-style "$." prefixes.
+ * Paths are made relative to `dataSource` unless they already start with a known source.
+ * @param path - The path reported by the server
+ * @param options - Data source and known source names
+ * @returns The binding path (e.g., "object.userExperience[1].employer")
+ */
+export function toBindingPath(path: string, options: MapServerErrorOptions = {}): string {
+  const dataSource = options.dataSource || DEFAULT_DATA_SOURCE
+  const sourceNames = options.sourceNames || [dataSource]
+
+  let normalized = path.trim()
+  if (normalized.startsWith('/')) {
+    // JSON Pointer: "/userExperience/1/employer"
+    normalized = normalized
+      .slice(1)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .join('.')
+  }
+  normalized = normalized.replace(/^\$\.?/, '').replace(/\.(\d+)(?=\.|$)/g, '[$1]')
+
+  const root = normalized.split(/[.[]/)[0]
+  return sourceNames.includes(root) ? normalized : `${dataSource}.${normalized}`
+}
+
+/**
+ * Get the candidate payloads of a thrown error
+ * API clients attach the response body differently (fetch wrappers, axios, ...).
+ */
+function getPayloadCandidates(error: unknown): any[] {
+  if (!error || typeof error !== 'object') return []
+  const source = error as Record<string, any>
+  return [source.body, source.data, source.response?.data, source].filter(
+    (candidate) => candidate !== undefined && candidate !== null && typeof candidate === 'object'
+  )
+}
+
+/**
+ * Server Error Mapper
+ *
+ * Turns the error of a failed submit into per-binding field errors and a form-level message.
+ * Supports RFC 7807 problem details, flat error maps and arrays of `{ path, message }` out of
+ * the box; register additional formats for other backends.
+ *
+ * @example
+ * ```typescript
+ * const mapper = new ServerErrorMapper()
+ * mapper.map({ body: { errors: { 'userExperience[1].employer': 'Unknown employer' } } })
+ * // { fieldErrors: { 'object.userExperience[1].employer': 'Unknown employer' } }
+ * ```
+ */
+export class ServerErrorMapper {
+  private formats: Map<string, ServerErrorFormat> = new Map()
+
+  constructor(formats: ServerErrorFormat[] = []) {
+    this.registerMany(formats)
+  }
+
+  /**
+   * Register a server error format
+   * @param format - The format to register
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a format with the same name is already registered and override is false
+   */
+  register(format: ServerErrorFormat, override: boolean = false): void {
+    if (this.formats.has(format.name) && !override) {
+      throw new Error(
+        `Server error format "${format.name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.formats.set(format.name, format)
+  }
+
+  /**
+   * Register multiple server error formats at once
+   * @param formats - Formats to register, in matching order
+   * @param override - If true, allows overriding existing registrations (default: false)
+   */
+  registerMany(formats: ServerErrorFormat[], override: boolean = false): void {
+    formats.forEach((format) => this.register(format, override))
+  }
+
+  /**
+   * Get a server error format by name
+   * @param name - The format name
+   * @returns The registered format, or undefined if not found
+   */
+  get(name: string): ServerErrorFormat | undefined {
+    return this.formats.get(name)
+  }
+
+  /**
+   * Check if a server error format is registered
+   * @param name - The format name
+   * @returns True if the format is registered, false otherwise
+   */
+  has(name: string): boolean {
+    return this.formats.has(name)
+  }
+
+  /**
+   * Unregister a server error format
+   * @param name - The format name
+   * @returns True if the format was registered and removed, false otherwise
+   */
+  unregister(name: string): boolean {
+    return this.formats.delete(name)
+  }
+
+  /**
+   * Get all registered format names, in matching order
+   * @returns Array of format names
+   */
+  getRegisteredFormats(): string[] {
+    return Array.from(this.formats.keys())
+  }
+
+  /**
+   * Clear all registered formats
+   */
+  clear(): void {
+    this.formats.clear()
+  }
+
+  /**
+   * Get the number of registered formats
+   * @returns Number of registered formats
+   */
+  size(): number {
+    return this.formats.size
+  }
+
+  /**
+   * Map a submit error to field errors and a form-level message
+   * @param error - The error thrown by ApiProvider.call (or the response body itself)
+   * @param options - How to resolve relative paths
+   * @returns Field errors keyed by binding path; empty when no format matched
+   */
+  map(error: unknown, options: MapServerErrorOptions = {}): ServerErrorResult {
+    for (const payload of getPayloadCandidates(error)) {
+      const format = Array.from(this.formats.values()).find((candidate) => candidate.matches(payload))
+      if (!format) continue
+
+      const result = format.parse(payload)
+      const fieldErrors: Record<string, string> = {}
+      Object.entries(result.fieldErrors).forEach(([path, message]) => {
+        fieldErrors[toBindingPath(path, options)] = message
+      })
+      return { fieldErrors, formError: result.formError }
+    }
+
+    return { fieldErrors: {} }
+  }
+}
+
+/**
+ * Default server error mapper instance with the built-in formats
+ */
+export const defaultServerErrorMapper = new ServerErrorMapper(builtInServerErrorFormats)
@@ -0,0 +1,157 @@
+import type { ApiProvider, FormSource, SourceType } from '../types'
+import { builtInSourceAdapters } from './sourceAdapters'
+
+/**
+ * A source resolved against the current store
+ */
+export interface ResolvedSource {
+  // False while the source cannot be loaded yet (e.g., a parameter has no value)
+  ready: boolean
+  // The source is loaded again whenever its signature changes
+  signature: string
+  // Where the data comes from (shown in errors and debug logs, e.g., the URL of an API source)
+  endpoint: string
+  // Resolved parameter values
+  params: Record<string, any>
+}
+
+export interface SourceFetchContext {
+  apiProvider: ApiProvider
+  store: Record<string, any>
+  // Aborted when the source parameters change before the fetch ends, or the form unmounts
+  signal: AbortSignal
+}
+
+/**
+ * Loads the data of one source type
+ * Sources of every type share the loading state, error and retry handling of useStore.
+ *
+ * @example
+ * ```typescript
+ * const sessionStorageAdapter: SourceAdapter = {
+ *   resolve: (source) => ({ ready: true, signature: source.sourceName, endpoint: 'sessionStorage', params: {} }),
+ *   fetch: (source) => JSON.parse(sessionStorage.getItem(source.storageKey || source.sourceName) || 'null'),
+ * }
+ * ```
+ */
+export interface SourceAdapter {
+  /**
+   * Resolve the source against the store
+   * @param source - The source configuration
+   * @param store - The entire form store
+   * @returns Whether the source can be loaded, and the signature of its inputs
+   */
+  resolve: (source: FormSource, store: Record<string, any>) => ResolvedSource
+  /**
+   * Load the source data
+   * @param source - The source configuration
+   * @param context - The API provider, the store the source was resolved against and the abort signal
+   * @returns The data to store under the source name (errors are retried like API errors)
+   */
+  fetch: (source: FormSource, context: SourceFetchContext) => any | Promise<any>
+  /**
+   * Optionally list the binding paths the source reads, to order it after the sources it depends on
+   * @param source - The source configuration
+   * @returns Binding paths (default: the parameter paths)
+   */
+  getDependencies?: (source: FormSource) => string[]
+  /**
+   * Optionally watch for outside changes (e.g., URL or storage changes)
+   * @param source - The source configuration
+   * @param onChange - Call to load the source again
+   * @returns Function that stops watching
+   */
+  subscribe?: (source: FormSource, onChange: () => void) => () => void
+}
+
+/**
+ * Source Adapter Registry
+ *
+ * Maps `FormSource.sourceType` to the adapter that loads it.
+ *
+ * @example
+ * ```typescript
+ * const registry = new SourceAdapterRegistry(builtInSourceAdapters)
+ * registry.register('SessionStorage', sessionStorageAdapter)
+ *
+ * // { sourceName: 'draft', sourceType: 'SessionStorage', storageKey: 'profile-draft' }
+ * ```
+ */
+export class SourceAdapterRegistry {
+  private adapters: Map<SourceType, SourceAdapter> = new Map()
+
+  constructor(adapters: Record<string, SourceAdapter> = {}) {
+    Object.entries(adapters).forEach(([sourceType, adapter]) => this.register(sourceType, adapter))
+  }
+
+  /**
+   * Register an adapter for a source type
+   * @param sourceType - The source type identifier (can be a built-in SourceType or custom string)
+   * @param adapter - The adapter loading sources of this type
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if the source type is already registered and override is false
+   */
+  register(sourceType: SourceType, adapter: SourceAdapter, override: boolean = false): void {
+    if (this.adapters.has(sourceType) && !override) {
+      throw new Error(
+        `Source type "${sourceType}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.adapters.set(sourceType, adapter)
+  }
+
+  /**
+   * Get the adapter of a source type
+   * @param sourceType - The source type identifier
+   * @returns The registered adapter, or undefined if not found
+   */
+  get(sourceType: SourceType): SourceAdapter | undefined {
+    return this.adapters.get(sourceType)
+  }
+
+  /**
+   * Check if a source type is registered
+   * @param sourceType - The source type identifier
+   * @returns True if the source type is registered, false otherwise
+   */
+  has(sourceType: SourceType): boolean {
+    return this.adapters.has(sourceType)
+  }
+
+  /**
+   * Unregister a source type
+   * @param sourceType - The source type identifier
+   * @returns True if the source type was registered and removed, false otherwise
+   */
+  unregister(sourceType: SourceType): boolean {
+    return this.adapters.delete(sourceType)
+  }
+
+  /**
+   * Get all registered source types
+   * @returns Array of source type identifiers
+   */
+  getRegisteredTypes(): SourceType[] {
+    return Array.from(this.adapters.keys())
+  }
+
+  /**
+   * Clear all registrations
+   */
+  clear(): void {
+    this.adapters.clear()
+  }
+
+  /**
+   * Get the number of registered source types
+   * @returns The number of registered source types
+   */
+  size(): number {
+    return this.adapters.size
+  }
+}
+
+/**
+ * Default source adapter registry with the built-in source types
+ */
+export const defaultSourceAdapterRegistry = new SourceAdapterRegistry(builtInSourceAdapters)
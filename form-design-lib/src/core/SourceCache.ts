@@ -0,0 +1,270 @@
+import type { FormSource } from '../types'
+import type { ResolvedSource } from './SourceAdapterRegistry'
+
+interface CacheEntry {
+  data: any
+  timestamp: number
+  // Source names and cache keys the entry is invalidated by
+  names: string[]
+}
+
+interface PendingRequest {
+  promise: Promise<any>
+  controller: AbortController
+  // Forms waiting for the response; the request is aborted when all of them gave up
+  consumers: number
+  names: string[]
+}
+
+/**
+ * Get the cache key of a resolved source
+ * Sources of different forms with the same type, endpoint and signature share the key.
+ * @param source - The source configuration
+ * @param resolved - The source resolved against the store
+ * @returns The cache key (e.g., 'API:/api/countries|{"url":"/api/countries",...}')
+ */
+export function getSourceCacheKey(source: FormSource, resolved: ResolvedSource): string {
+  return `${source.cache?.key || `${source.sourceType}:${resolved.endpoint}`}|${resolved.signature}`
+}
+
+/**
+ * Names a source is invalidated by: its source name and its cache key
+ */
+function getInvalidationNames(source: FormSource): string[] {
+  return source.cache?.key ? [source.sourceName, source.cache.key] : [source.sourceName]
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('The source request was aborted')
+  error.name = 'AbortError'
+  return error
+}
+
+/**
+ * Source Cache
+ *
+ * Shares source responses between forms:
+ * - identical concurrent requests (same cache key) are fetched once
+ * - responses are reused for `cache.ttl` milliseconds
+ * - for `cache.staleWhileRevalidate` milliseconds more, the stale response is used
+ *   while it is fetched again in the background (forms reload it when the fetch ends)
+ *
+ * @example
+ * ```typescript
+ * // { sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries', cache: { ttl: 60000 } }
+ *
+ * // After saving a new country
+ * invalidateSource('countryList')
+ * ```
+ */
+export class SourceCache {
+  private entries: Map<string, CacheEntry> = new Map()
+  private pending: Map<string, PendingRequest> = new Map()
+  private listeners: Set<(names: string[]) => void> = new Set()
+
+  /**
+   * @param now - Clock used for the ttl (default: Date.now)
+   */
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Get the data of a source from the cache, or fetch it
+   * @param source - The source configuration (its `cache` settings are used)
+   * @param resolved - The source resolved against the store
+   * @param fetcher - Loads the data; receives the signal of the shared request
+   * @param signal - Aborts waiting for this caller (the shared request is aborted when no caller waits anymore)
+   * @returns The source data
+   */
+  fetch(
+    source: FormSource,
+    resolved: ResolvedSource,
+    fetcher: (signal: AbortSignal) => any | Promise<any>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const key = getSourceCacheKey(source, resolved)
+    const ttl = source.cache?.ttl ?? 0
+    const staleWhileRevalidate = source.cache?.staleWhileRevalidate ?? 0
+
+    const entry = this.entries.get(key)
+    if (entry) {
+      const age = this.now() - entry.timestamp
+      if (age < ttl) {
+        return Promise.resolve(entry.data)
+      }
+      if (age < ttl + staleWhileRevalidate) {
+        this.revalidate(key, source, fetcher)
+        return Promise.resolve(entry.data)
+      }
+      this.entries.delete(key)
+    }
+
+    return this.wait(key, this.load(key, source, fetcher), signal)
+  }
+
+  /**
+   * Invalidate the cached responses of a source, and reload it in mounted forms
+   * @param name - The source name or cache key
+   */
+  invalidate(name: string): void {
+    this.entries.forEach((entry, key) => {
+      if (entry.names.includes(name)) this.entries.delete(key)
+    })
+    // Requests in flight still answer their callers, but are not cached
+    this.pending.forEach((pending, key) => {
+      if (pending.names.includes(name)) this.pending.delete(key)
+    })
+    this.notify([name])
+  }
+
+  /**
+   * Check if a fresh or stale response is cached
+   * @param source - The source configuration
+   * @param resolved - The source resolved against the store
+   * @returns True if a response is cached for the source and its signature
+   */
+  has(source: FormSource, resolved: ResolvedSource): boolean {
+    return this.entries.has(getSourceCacheKey(source, resolved))
+  }
+
+  /**
+   * Listen for invalidated or revalidated sources
+   * @param listener - Called with the source names and cache keys to reload
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (names: string[]) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Clear all cached responses (requests in flight are not cached)
+   */
+  clear(): void {
+    this.entries.clear()
+    this.pending.clear()
+  }
+
+  /**
+   * Get the number of cached responses
+   * @returns The number of cached responses
+   */
+  size(): number {
+    return this.entries.size
+  }
+
+  private notify(names: string[]): void {
+    this.listeners.forEach((listener) => listener(names))
+  }
+
+  /**
+   * Start the shared request for a key, or join the one in flight
+   */
+  private load(key: string, source: FormSource, fetcher: (signal: AbortSignal) => any | Promise<any>): PendingRequest {
+    const existing = this.pending.get(key)
+    if (existing) return existing
+
+    const controller = new AbortController()
+    const names = getInvalidationNames(source)
+    const isCached = (source.cache?.ttl ?? 0) > 0 || (source.cache?.staleWhileRevalidate ?? 0) > 0
+    const pending: PendingRequest = { controller, consumers: 0, names, promise: Promise.resolve() }
+
+    pending.promise = Promise.resolve()
+      .then(() => fetcher(controller.signal))
+      .then(
+        (data) => {
+          // Invalidated or abandoned requests are not cached
+          if (this.pending.get(key) === pending) {
+            this.pending.delete(key)
+            if (isCached) {
+              this.entries.set(key, { data, timestamp: this.now(), names })
+            }
+          }
+          return data
+        },
+        (error) => {
+          if (this.pending.get(key) === pending) {
+            this.pending.delete(key)
+          }
+          throw error
+        }
+      )
+    this.pending.set(key, pending)
+    return pending
+  }
+
+  /**
+   * Fetch a stale response again in the background, then let forms reload it
+   */
+  private revalidate(key: string, source: FormSource, fetcher: (signal: AbortSignal) => any | Promise<any>): void {
+    if (this.pending.has(key)) return
+
+    const pending = this.load(key, source, fetcher)
+    // The background fetch is never abandoned by the forms waiting for it
+    pending.consumers++
+    pending.promise.then(
+      () => this.notify(pending.names),
+      () => {
+        // The stale response stays in use until it expires
+      }
+    )
+  }
+
+  /**
+   * Wait for a shared request until it ends or the caller aborts
+   */
+  private wait(key: string, pending: PendingRequest, signal?: AbortSignal): Promise<any> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError())
+    }
+
+    pending.consumers++
+    if (!signal) return pending.promise
+
+    return new Promise((resolve, reject) => {
+      let released = false
+      const release = () => {
+        if (released) return
+        released = true
+        signal.removeEventListener('abort', handleAbort)
+        pending.consumers--
+      }
+      const handleAbort = () => {
+        release()
+        // Nobody waits for the response anymore: abort the request itself
+        if (pending.consumers === 0 && this.pending.get(key) === pending) {
+          this.pending.delete(key)
+          pending.controller.abort()
+        }
+        reject(createAbortError())
+      }
+
+      signal.addEventListener('abort', handleAbort)
+      pending.promise.then(
+        (data) => {
+          release()
+          resolve(data)
+        },
+        (error) => {
+          release()
+          reject(error)
+        }
+      )
+    })
+  }
+}
+
+/**
+ * Default source cache, shared by all forms
+ */
+export const defaultSourceCache = new SourceCache()
+
+/**
+ * Invalidate the cached responses of a source and reload it in mounted forms
+ * @param name - The source name or cache key
+ * @param cache - The source cache (default: defaultSourceCache)
+ */
+export function invalidateSource(name: string, cache: SourceCache = defaultSourceCache): void {
+  cache.invalidate(name)
+}
@@ -0,0 +1,182 @@
+import type { FormSource } from '../types'
+
+/**
+ * Error thrown for source dependency cycles and references to unknown sources
+ */
+export class SourceGraphError extends Error {
+  constructor(message: string, public readonly sourceNames: string[]) {
+    super(message)
+    this.name = 'SourceGraphError'
+  }
+}
+
+export interface SourceGraphOptions {
+  // Store roots sources may read without being sources themselves (e.g., "object", "queryString")
+  knownRoots?: string[]
+  // Binding paths a source reads (default: its parameter paths)
+  getDependencies?: (source: FormSource) => string[]
+}
+
+/**
+ * Get the store root of a binding path
+ * @param path - The binding path (e.g., "countryList[0].code")
+ * @returns The root (e.g., "countryList")
+ */
+function getRoot(path: string): string {
+  return path.split(/[.[]/)[0]
+}
+
+const getParameterPaths = (source: FormSource): string[] => Object.values(source.parameters || {})
+
+/**
+ * Source Graph
+ *
+ * Dependencies between sources, from the binding paths they read (`parameters`):
+ * `{ sourceName: 'cityList', parameters: { state: 'stateList.selected' } }` depends on `stateList`.
+ * Sources are ordered so every source comes after the sources it reads.
+ *
+ * @example
+ * ```typescript
+ * const graph = new SourceGraph(config.sources, { knownRoots: ['object', 'queryString'] })
+ * graph.getLevels() // [['countryList'], ['stateList'], ['cityList']]
+ * ```
+ */
+export class SourceGraph {
+  private sources: Map<string, FormSource> = new Map()
+  private dependencies: Map<string, string[]> = new Map()
+  private order: FormSource[] = []
+
+  /**
+   * @param sources - The form sources
+   * @param options - Roots that are not sources, and how to find the paths a source reads
+   * @throws SourceGraphError if sources depend on each other in a cycle, or read an unknown root
+   */
+  constructor(sources: FormSource[], options: SourceGraphOptions = {}) {
+    const { knownRoots = [], getDependencies = getParameterPaths } = options
+    sources.forEach((source) => this.sources.set(source.sourceName, source))
+
+    sources.forEach((source) => {
+      const inputs = new Set<string>()
+      getDependencies(source).forEach((path) => {
+        const root = getRoot(path)
+        // A source reading its own data (e.g., "object.id") is reloaded by store changes, not ordered
+        if (root === source.sourceName) return
+        if (this.sources.has(root)) {
+          inputs.add(root)
+          return
+        }
+        if (!knownRoots.includes(root)) {
+          throw new SourceGraphError(
+            `Source "${source.sourceName}" reads "${path}", but there is no source "${root}"`,
+            [source.sourceName]
+          )
+        }
+      })
+      this.dependencies.set(source.sourceName, Array.from(inputs))
+    })
+
+    this.order = this.sort(sources)
+  }
+
+  /**
+   * Get the sources in fetch order (inputs before the sources that read them)
+   * @returns The sources sorted by dependency
+   */
+  getOrder(): FormSource[] {
+    return this.order
+  }
+
+  /**
+   * Get the sources a source reads
+   * @param sourceName - The source name
+   * @returns Names of the input sources
+   */
+  getDependencies(sourceName: string): string[] {
+    return this.dependencies.get(sourceName) || []
+  }
+
+  /**
+   * Get the sources reading a source
+   * @param sourceName - The source name
+   * @returns Names of the dependent sources
+   */
+  getDependents(sourceName: string): string[] {
+    return Array.from(this.dependencies.entries())
+      .filter(([, inputs]) => inputs.includes(sourceName))
+      .map(([name]) => name)
+  }
+
+  /**
+   * Group the sources into levels that can be fetched in parallel
+   * @returns Source names by level (level n only reads sources of lower levels)
+   */
+  getLevels(): string[][] {
+    const levels: string[][] = []
+    const levelOf = new Map<string, number>()
+    this.order.forEach((source) => {
+      const level = Math.max(-1, ...this.getDependencies(source.sourceName).map((name) => levelOf.get(name)!)) + 1
+      levelOf.set(source.sourceName, level)
+      levels[level] = [...(levels[level] || []), source.sourceName]
+    })
+    return levels
+  }
+
+  /**
+   * Describe the graph (used in the debug log)
+   * @returns The input sources of every source
+   */
+  toJSON(): Record<string, string[]> {
+    return Object.fromEntries(this.order.map((source) => [source.sourceName, this.getDependencies(source.sourceName)]))
+  }
+
+  private sort(sources: FormSource[]): FormSource[] {
+    const sorted: FormSource[] = []
+    const state = new Map<string, 'visiting' | 'done'>()
+
+    const visit = (name: string, trail: string[]) => {
+      if (state.get(name) === 'done') return
+      if (state.get(name) === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(name)), name]
+        throw new SourceGraphError(`Circular source dependency: ${cycle.join(' -> ')}`, cycle.slice(0, -1))
+      }
+
+      state.set(name, 'visiting')
+      this.getDependencies(name).forEach((input) => visit(input, [...trail, name]))
+      state.set(name, 'done')
+      sorted.push(this.sources.get(name)!)
+    }
+
+    sources.forEach((source) => visit(source.sourceName, []))
+    return sorted
+  }
+}
+
+/**
+ * Build the graph of the sources that can be loaded
+ * Sources in a cycle or reading an unknown source are left out (and reported) instead of breaking the form;
+ * sources reading them are still loaded, without waiting for them.
+ * @param sources - The form sources
+ * @param options - Roots that are not sources, and how to find the paths a source reads
+ * @returns The graph and the errors of the sources left out
+ */
+export function createSourceGraph(
+  sources: FormSource[],
+  options: SourceGraphOptions = {}
+): { graph: SourceGraph; errors: SourceGraphError[] } {
+  const errors: SourceGraphError[] = []
+  const excluded: string[] = []
+
+  for (;;) {
+    try {
+      const graph = new SourceGraph(
+        sources.filter((source) => !excluded.includes(source.sourceName)),
+        { ...options, knownRoots: [...(options.knownRoots || []), ...excluded] }
+      )
+      return { graph, errors }
+    } catch (error) {
+      if (!(error instanceof SourceGraphError)) throw error
+      errors.push(error)
+      excluded.push(...error.sourceNames)
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import type { FormSource, SourceTransformConfig } from '../types'
+import { ExpressionEvaluator, defaultExpressionEvaluator } from './ExpressionEvaluator'
+import { builtInSourceTransforms, evaluateAgainst } from './sourceTransforms'
+
+export interface SourceTransformContext {
+  source: FormSource
+  // Evaluates the expressions of the transform options
+  evaluator: ExpressionEvaluator
+}
+
+/**
+ * Reshapes the data of a source (e.g., maps response items to dropdown options)
+ * @param data - The source data (the response after `select` and the previous transforms)
+ * @param options - The transform options from the config (e.g., { name: 'sortBy', key: 'label' })
+ * @param context - The source and the expression evaluator
+ * @returns The transformed data
+ */
+export type SourceTransform = (data: any, options: SourceTransformConfig, context: SourceTransformContext) => any
+
+/**
+ * Source Transformer
+ *
+ * Declares the shape of a source response instead of guessing it:
+ * 1. `select` picks the data from the response (a path such as "data.items", or any expression)
+ * 2. `transform` applies registered transforms in order (built-in: map, filter, sortBy, rename)
+ *
+ * @example
+ * ```typescript
+ * // { "data": { "countries": [{ "iso": "US", "name": "United States" }] } }
+ * const source: FormSource = {
+ *   sourceName: 'countryList',
+ *   sourceType: 'API',
+ *   endpoint: '/api/countries',
+ *   select: 'data.countries',
+ *   transform: [{ name: 'rename', fields: { iso: 'value', name: 'label' } }, { name: 'sortBy', key: 'label' }],
+ * }
+ * defaultSourceTransformer.apply(source, response) // [{ value: 'US', label: 'United States' }]
+ * ```
+ */
+export class SourceTransformer {
+  private transforms: Map<string, SourceTransform> = new Map()
+
+  /**
+   * @param transforms - Initial transforms by name
+   * @param evaluator - Evaluates `select` and the expressions of transform options
+   */
+  constructor(
+    transforms: Record<string, SourceTransform> = {},
+    private evaluator: ExpressionEvaluator = defaultExpressionEvaluator
+  ) {
+    Object.entries(transforms).forEach(([name, transform]) => this.register(name, transform))
+  }
+
+  /**
+   * Register a named source transform
+   * @param name - The name referenced by `source.transform`
+   * @param transform - The transform implementation
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a transform with the same name is already registered and override is false
+   */
+  register(name: string, transform: SourceTransform, override: boolean = false): void {
+    if (this.transforms.has(name) && !override) {
+      throw new Error(
+        `Source transform "${name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.transforms.set(name, transform)
+  }
+
+  /**
+   * Get a source transform by name
+   * @param name - The transform name
+   * @returns The registered transform, or undefined if not found
+   */
+  get(name: string): SourceTransform | undefined {
+    return this.transforms.get(name)
+  }
+
+  /**
+   * Check if a source transform is registered
+   * @param name - The transform name
+   * @returns True if the transform is registered, false otherwise
+   */
+  has(name: string): boolean {
+    return this.transforms.has(name)
+  }
+
+  /**
+   * Unregister a source transform
+   * @param name - The transform name
+   * @returns True if the transform was registered and removed, false otherwise
+   */
+  unregister(name: string): boolean {
+    return this.transforms.delete(name)
+  }
+
+  /**
+   * Get all registered transform names
+   * @returns Array of transform names
+   */
+  getRegisteredTransforms(): string[] {
+    return Array.from(this.transforms.keys())
+  }
+
+  /**
+   * Clear all registered transforms
+   */
+  clear(): void {
+    this.transforms.clear()
+  }
+
+  /**
+   * Get the number of registered transforms
+   * @returns The number of registered transforms
+   */
+  size(): number {
+    return this.transforms.size
+  }
+
+  /**
+   * Apply a source's `select` and `transform` to its response
+   * @param source - The source configuration
+   * @param response - The data loaded by the source adapter
+   * @returns The data stored under the source name (the response as-is without select and transform)
+   * @throws Error if a transform is not registered, or a select or transform fails
+   */
+  apply(source: FormSource, response: any): any {
+    let data = source.select
+      ? evaluateAgainst(this.evaluator, source.select, response, { response })
+      : response
+
+    ;(source.transform || []).forEach((entry) => {
+      const options: SourceTransformConfig = typeof entry === 'string' ? { name: entry } : entry
+      const transform = this.transforms.get(options.name)
+      if (!transform) {
+        throw new Error(`Source transform "${options.name}" is not registered`)
+      }
+      data = transform(data, options, { source, evaluator: this.evaluator })
+    })
+    return data
+  }
+}
+
+/**
+ * Default source transformer with the built-in transforms
+ */
+export const defaultSourceTransformer = new SourceTransformer(builtInSourceTransforms)
@@ -0,0 +1,270 @@
+import type { FormConfig, FormField as FormFieldType, ValidationTrigger } from '../types'
+import { getNestedValue } from '../utils/nestedValue'
+import { isFieldRequired, isFieldVisible } from '../utils/visibility'
+import { getListItemBinding, getListItemProperty, resolveListItems } from '../utils/listItems'
+import { builtInValidationRules } from './validationRules'
+
+/**
+ * A single validation rule
+ * Rules are evaluated in registration order and the first error wins.
+ */
+export interface ValidationRule {
+  /**
+   * Unique rule identifier (e.g., "required", "minLength")
+   */
+  name: string
+
+  /**
+   * Run this rule even when the value is empty (undefined, null or '')
+   * Only rules such as "required" need this; all other rules are skipped for empty values.
+   */
+  validatesEmpty?: boolean
+
+  /**
+   * Check if this rule applies to the given field
+   * When omitted, the rule is evaluated for every field.
+   */
+  appliesTo?(field: FormFieldType): boolean
+
+  /**
+   * Validate a value
+   * @param value - The field value to validate
+   * @param field - The field configuration
+   * @param store - The entire form store (for cross-field validation)
+   * @returns Error message if invalid, undefined if valid (sync or async)
+   */
+  validate(
+    value: any,
+    field: FormFieldType,
+    store: Record<string, any>
+  ): string | undefined | Promise<string | undefined>
+}
+
+export interface ValidateFormOptions {
+  /**
+   * Trigger to validate for (default: 'onSubmit')
+   */
+  trigger?: ValidationTrigger
+  /**
+   * Override the visibility check (default: isFieldVisible)
+   */
+  isVisible?: (field: FormFieldType, store: Record<string, any>) => boolean
+}
+
+/**
+ * Check if a value counts as empty for validation purposes
+ */
+export function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+/**
+ * Validation Engine
+ *
+ * Runs registered validation rules against field values.
+ * Works independently of React, so a FormConfig and its data can be validated
+ * anywhere (e.g., in a Node job or a unit test).
+ *
+ * @example
+ * ```typescript
+ * const engine = new ValidationEngine(builtInValidationRules)
+ * engine.register({
+ *   name: 'noSpaces',
+ *   appliesTo: (field) => field.fieldType === 'Text',
+ *   validate: (value) => (/\s/.test(String(value)) ? 'Spaces are not allowed' : undefined),
+ * })
+ *
+ * const errors = await engine.validateForm(config, { object: { username: 'john doe' } })
+ * ```
+ */
+export class ValidationEngine {
+  private rules: Map<string, ValidationRule> = new Map()
+
+  /**
+   * @param rules - Initial rules to register, in evaluation order
+   */
+  constructor(rules: ValidationRule[] = []) {
+    rules.forEach((rule) => this.register(rule))
+  }
+
+  /**
+   * Register a validation rule
+   * @param rule - The rule to register
+   * @param override - If true, allows overriding existing registrations (default: false)
+   * @throws Error if a rule with the same name is already registered and override is false
+   */
+  register(rule: ValidationRule, override: boolean = false): void {
+    if (this.rules.has(rule.name) && !override) {
+      throw new Error(
+        `Validation rule "${rule.name}" is already registered. Use override=true to replace it.`
+      )
+    }
+    this.rules.set(rule.name, rule)
+  }
+
+  /**
+   * Register multiple validation rules at once
+   * @param rules - Rules to register, in evaluation order
+   * @param override - If true, allows overriding existing registrations (default: false)
+   */
+  registerMany(rules: ValidationRule[], override: boolean = false): void {
+    rules.forEach((rule) => this.register(rule, override))
+  }
+
+  /**
+   * Get a validation rule by name
+   * @param name - The rule name
+   * @returns The registered rule, or undefined if not found
+   */
+  get(name: string): ValidationRule | undefined {
+    return this.rules.get(name)
+  }
+
+  /**
+   * Check if a validation rule is registered
+   * @param name - The rule name
+   * @returns True if the rule is registered, false otherwise
+   */
+  has(name: string): boolean {
+    return this.rules.has(name)
+  }
+
+  /**
+   * Unregister a validation rule
+   * @param name - The rule name
+   * @returns True if the rule was registered and removed, false otherwise
+   */
+  unregister(name: string): boolean {
+    return this.rules.delete(name)
+  }
+
+  /**
+   * Get all registered rule names, in evaluation order
+   * @returns Array of rule names
+   */
+  getRegisteredRules(): string[] {
+    return Array.from(this.rules.keys())
+  }
+
+  /**
+   * Clear all registrations
+   */
+  clear(): void {
+    this.rules.clear()
+  }
+
+  /**
+   * Get the number of registered rules
+   * @returns The number of registered rules
+   */
+  size(): number {
+    return this.rules.size
+  }
+
+  /**
+   * Validate a single field value
+   * @param field - The field configuration
+   * @param value - The value to validate
+   * @param store - The entire form store
+   * @param trigger - The validation trigger (default: 'onSubmit')
+   * @returns The first error message, or undefined if the value is valid
+   */
+  async validateField(
+    field: FormFieldType,
+    value: any,
+    store: Record<string, any>,
+    trigger: ValidationTrigger = 'onSubmit'
+  ): Promise<string | undefined> {
+    // Check if validation should run for this trigger
+    const validateOn = field.validateOn || ['onSubmit']
+    if (!validateOn.includes(trigger)) {
+      return undefined
+    }
+
+    // Resolve conditional requirement (requiredWhen) so every rule sees the effective flag
+    if (field.requiredWhen) {
+      field = { ...field, required: isFieldRequired(field, store) }
+    }
+
+    const isEmpty = isEmptyValue(value)
+
+    for (const rule of this.rules.values()) {
+      // Skip other validations if field is empty
+      if (isEmpty && !rule.validatesEmpty) continue
+      if (rule.appliesTo && !rule.appliesTo(field)) continue
+
+      try {
+        const error = await rule.validate(value, field, store)
+        if (error) {
+          return error
+        }
+      } catch (error) {
+        console.error(`[ValidationEngine] Rule "${rule.name}" failed for field ${field.binding}:`, error)
+        return 'Validation error occurred'
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Validate every visible field of a form
+   * List fields are checked for their item count and every item's nested fields are
+   * validated, with errors keyed by the concrete indexed binding
+   * (e.g., "object.userExperience[0].employer").
+   * @param config - The form configuration (or just its fields)
+   * @param store - The entire form store
+   * @param options - Trigger and visibility options
+   * @returns Errors keyed by binding path (empty when the form is valid)
+   */
+  async validateForm(
+    config: Pick<FormConfig, 'fields'>,
+    store: Record<string, any>,
+    options: ValidateFormOptions = {}
+  ): Promise<Record<string, string>> {
+    const { trigger = 'onSubmit', isVisible = isFieldVisible } = options
+    const errors: Record<string, string> = {}
+
+    const validateFields = async (entries: Array<{ field: FormFieldType; value: any }>) => {
+      await Promise.all(
+        entries.map(async ({ field, value }) => {
+          // Only validate visible fields
+          if (!isVisible(field, store)) return
+
+          const error = await this.validateField(field, value, store, trigger)
+          if (error) {
+            errors[field.binding] = error
+          }
+
+          // Validate the nested fields of every list item
+          if (field.fieldType === 'List' && field.fields && Array.isArray(value)) {
+            await Promise.all(
+              value.map((item, index) =>
+                validateFields(
+                  field.fields!.map((nestedField) => ({
+                    field: { ...nestedField, binding: getListItemBinding(field, index, nestedField) },
+                    value: getNestedValue(item, getListItemProperty(field, nestedField)),
+                  }))
+                )
+              )
+            )
+          }
+        })
+      )
+    }
+
+    await validateFields(
+      config.fields.map((field) => ({
+        field,
+        value: field.fieldType === 'List' ? resolveListItems(field, store) : getNestedValue(store, field.binding),
+      }))
+    )
+
+    return errors
+  }
+}
+
+/**
+ * Default validation engine instance, populated with the built-in rules
+ */
+export const defaultValidationEngine = new ValidationEngine(builtInValidationRules)
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ComputedFieldEngine } from '../ComputedFieldEngine'
+import type { FormField } from '../../types'
+
+describe('ComputedFieldEngine', () => {
+  const field = (binding: string, compute?: FormField['compute']): FormField => ({
+    fieldName: binding,
+    fieldType: 'Number',
+    binding,
+    compute,
+  })
+
+  describe('registerFunction', () => {
+    it('should throw when registering a duplicate without override', () => {
+      const engine = new ComputedFieldEngine()
+      engine.registerFunction('total', () => 0)
+
+      expect(() => engine.registerFunction('total', () => 1)).toThrow('already registered')
+      expect(() => engine.registerFunction('total', () => 1, true)).not.toThrow()
+      expect(engine.hasFunction('total')).toBe(true)
+    })
+  })
+
+  describe('sortFields', () => {
+    it('should order computed fields after the computed fields they read', () => {
+      const engine = new ComputedFieldEngine()
+      const total = field('object.total', 'object.subtotal + object.tax')
+      const tax = field('object.tax', 'object.subtotal * 0.2')
+      const subtotal = field('object.subtotal', 'sum(object.lineItems[*].amount)')
+
+      const sorted = engine.sortFields([total, field('object.name'), tax, subtotal])
+
+      expect(sorted.map((f) => f.binding)).toEqual(['object.subtotal', 'object.tax', 'object.total'])
+    })
+
+    it('should use dependsOn for function-based fields', () => {
+      const engine = new ComputedFieldEngine()
+      const label = field('object.label', { function: 'label', dependsOn: ['object.total'] })
+      const total = field('object.total', 'object.price * object.quantity')
+
+      expect(engine.sortFields([label, total]).map((f) => f.binding)).toEqual(['object.total', 'object.label'])
+    })
+
+    it('should throw on circular dependencies', () => {
+      const engine = new ComputedFieldEngine()
+      const a = field('object.a', 'object.b + 1')
+      const b = field('object.b', 'object.a + 1')
+
+      expect(() => engine.sortFields([a, b])).toThrow(
+        'Circular computed field dependency: object.a -> object.b -> object.a'
+      )
+    })
+  })
+
+  describe('apply', () => {
+    it('should compute values in order and return a new store', () => {
+      const engine = new ComputedFieldEngine()
+      const fields = engine.sortFields([
+        field('object.total', 'object.subtotal * 2'),
+        field('object.subtotal', 'sum(object.lineItems[*].amount)'),
+      ])
+      const store = { object: { lineItems: [{ amount: 10 }, { amount: 5 }] } }
+
+      const next = engine.apply(fields, store)
+
+      expect(next).not.toBe(store)
+      expect(next.object.subtotal).toBe(15)
+      expect(next.object.total).toBe(30)
+    })
+
+    it('should call registered functions', () => {
+      const engine = new ComputedFieldEngine()
+      engine.registerFunction('fullName', (store) => `${store.object.first} ${store.object.last}`)
+      const fields = [field('object.fullName', { function: 'fullName', dependsOn: ['object.first', 'object.last'] })]
+
+      const next = engine.apply(fields, { object: { first: 'Ada', last: 'Lovelace' } })
+
+      expect(next.object.fullName).toBe('Ada Lovelace')
+    })
+
+    it('should return the same store when nothing changed', () => {
+      const engine = new ComputedFieldEngine()
+      const fields = [field('object.double', 'object.value * 2')]
+      const store = { object: { value: 2, double: 4 } }
+
+      expect(engine.apply(fields, store)).toBe(store)
+    })
+
+    it('should skip fields whose inputs did not change', () => {
+      const engine = new ComputedFieldEngine()
+      const compute = vi.fn((store: Record<string, any>) => store.object.value * 2)
+      engine.registerFunction('double', compute)
+      const fields = [field('object.double', { function: 'double', dependsOn: ['object.value'] })]
+      const cache = new Map<string, string>()
+
+      const first = engine.apply(fields, { object: { value: 2 } }, cache)
+      engine.apply(fields, { ...first, object: { ...first.object, other: 'x' } }, cache)
+      expect(compute).toHaveBeenCalledTimes(1)
+
+      const next = engine.apply(fields, { object: { ...first.object, value: 3 } }, cache)
+      expect(compute).toHaveBeenCalledTimes(2)
+      expect(next.object.double).toBe(6)
+    })
+
+    it('should recompute a value overwritten since the last result, even with unchanged inputs', () => {
+      const engine = new ComputedFieldEngine()
+      const fields = [field('object.double', 'object.value * 2')]
+      const cache = new Map<string, string>()
+
+      const first = engine.apply(fields, { object: { value: 2 } }, cache)
+      const next = engine.apply(fields, { object: { ...first.object, double: 999 } }, cache)
+      expect(next.object.double).toBe(4)
+    })
+
+    it('should leave the value unchanged when a compute function is missing', () => {
+      const engine = new ComputedFieldEngine()
+      const fields = [field('object.total', { function: 'missing', dependsOn: [] })]
+      const store = { object: { total: 1 } }
+
+      expect(engine.apply(fields, store)).toBe(store)
+    })
+  })
+})
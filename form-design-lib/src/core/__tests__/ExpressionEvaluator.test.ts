@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { ExpressionEvaluator } from '../ExpressionEvaluator'
+import { ExpressionError } from '../expression/ExpressionParser'
+import { isFieldVisible } from '../../utils/visibility'
+import { defaultValidationEngine } from '../ValidationEngine'
+import type { FormField } from '../../types'
+
+describe('ExpressionEvaluator', () => {
+  const evaluator = new ExpressionEvaluator()
+  const store = {
+    object: {
+      country: 'US',
+      age: '21',
+      tags: ['a', 'b'],
+      lineItems: [{ amount: 10 }, { amount: 2.5 }],
+    },
+  }
+
+  describe('evaluate', () => {
+    it('should resolve paths and compare values', () => {
+      expect(evaluator.evaluate("object.country == 'US' && object.age >= 18", store)).toBe(true)
+      expect(evaluator.evaluate("object.country != 'US' || object.age < 18", store)).toBe(false)
+    })
+
+    it('should respect operator precedence and parentheses', () => {
+      expect(evaluator.evaluate('1 + 2 * 3', store)).toBe(7)
+      expect(evaluator.evaluate('(1 + 2) * 3', store)).toBe(9)
+      expect(evaluator.evaluate('!(1 > 2) ? "yes" : "no"', store)).toBe('yes')
+    })
+
+    it('should support in, arrays, indices and wildcards', () => {
+      expect(evaluator.evaluate("object.country in ['US', 'CA']", store)).toBe(true)
+      expect(evaluator.evaluate('object.lineItems[1].amount', store)).toBe(2.5)
+      expect(evaluator.evaluate('sum(object.lineItems[*].amount)', store)).toBe(12.5)
+    })
+
+    it('should give locals precedence over store paths', () => {
+      expect(evaluator.evaluate('len(value) >= 3', store, { value: 'abc' })).toBe(true)
+      expect(evaluator.evaluate('option.code', store, { option: { code: 'NY' } })).toBe('NY')
+    })
+
+    it('should call registered functions only', () => {
+      evaluator.registerFunction('double', (value) => value * 2)
+      expect(evaluator.evaluate('double(4)', store)).toBe(8)
+      expect(() => evaluator.evaluate('alert(1)', store)).toThrow('Unknown function "alert"')
+      expect(() => evaluator.registerFunction('len', () => 0)).toThrow('already registered')
+    })
+
+    it('should reject prototype access and invalid syntax', () => {
+      expect(() => evaluator.evaluate('object.constructor', store)).toThrow(ExpressionError)
+      expect(() => evaluator.evaluate('object.country ==', store)).toThrow(ExpressionError)
+      expect(() => evaluator.evaluate('a = 1', store)).toThrow(ExpressionError)
+    })
+
+    it('should report dependencies', () => {
+      expect(evaluator.getDependencies("object.country == 'US' && len(object.tags) > 1")).toEqual([
+        'object.country',
+        'object.tags',
+      ])
+    })
+  })
+
+  describe('config integration', () => {
+    const field: FormField = {
+      fieldName: 'State',
+      fieldType: 'Text',
+      binding: 'object.state',
+    }
+
+    it('should evaluate visibleWhen and string dependsOn conditions', () => {
+      expect(isFieldVisible({ ...field, visibleWhen: "object.country == 'US'" }, store)).toBe(true)
+      expect(isFieldVisible({ ...field, visibleWhen: "object.country == 'CA'" }, store)).toBe(false)
+      expect(
+        isFieldVisible({ ...field, dependsOn: { field: 'object.age', condition: 'value >= 21' } }, store)
+      ).toBe(true)
+    })
+
+    it('should evaluate requiredWhen and expression validations', async () => {
+      const conditional = { ...field, requiredWhen: "object.country == 'US'" }
+      expect(await defaultValidationEngine.validateField(conditional, '', store)).toBe('State is required')
+
+      const validated = {
+        ...field,
+        validations: [{ expression: 'len(value) == 2', message: 'Use the 2-letter code' }],
+      }
+      expect(await defaultValidationEngine.validateField(validated, 'New York', store)).toBe(
+        'Use the 2-letter code'
+      )
+    })
+  })
+})
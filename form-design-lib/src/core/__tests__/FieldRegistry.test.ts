@@ -181,6 +181,43 @@ describe('FieldRegistry', () => {
       expect(registry.size()).toBe(1)
     })
   })
+
+  describe('metadata', () => {
+    const meta = { displayName: 'Text', category: 'Text', valueType: 'string' as const, defaultValue: '' }
+
+    it('should store metadata passed to register', () => {
+      registry.register('Text', MockTextField, meta)
+      expect(registry.get('Text')).toBe(MockTextField)
+      expect(registry.getMeta('Text')).toBe(meta)
+    })
+
+    it('should accept the override flag after the metadata', () => {
+      registry.register('Text', MockTextField, meta)
+      expect(() => registry.register('Text', MockNumberField, meta)).toThrow('already registered')
+
+      registry.register('Text', MockNumberField, { displayName: 'Number-like' }, true)
+      expect(registry.get('Text')).toBe(MockNumberField)
+      expect(registry.getMeta('Text')?.displayName).toBe('Number-like')
+    })
+
+    it('should drop metadata when re-registered without it', () => {
+      registry.register('Text', MockTextField, meta)
+      registry.register('Text', MockNumberField, true)
+      expect(registry.getMeta('Text')).toBeUndefined()
+    })
+
+    it('should remove metadata on unregister and clear', () => {
+      registry.register('Text', MockTextField, meta)
+      registry.register('Number', MockNumberField, { displayName: 'Number' })
+      expect(Array.from(registry.getAllMeta().keys())).toEqual(['Text', 'Number'])
+
+      registry.unregister('Text')
+      expect(registry.getMeta('Text')).toBeUndefined()
+
+      registry.clear()
+      expect(registry.getAllMeta().size).toBe(0)
+    })
+  })
 })
 
 describe('defaultFieldRegistry', () => {
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { PayloadSerializer, defaultPayloadSerializer } from '../PayloadSerializer'
+import { builtInOutputTransforms } from '../outputTransforms'
+import type { FormField } from '../../types'
+
+describe('PayloadSerializer', () => {
+  const experienceList: FormField = {
+    fieldName: 'Experience',
+    fieldType: 'List',
+    binding: 'object.userExperience',
+    itemObject: 'experienceItem',
+    fields: [
+      { fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' },
+      { fieldName: 'Start', fieldType: 'Date', binding: 'experienceItem.startDate', output: 'epoch' },
+    ],
+  }
+
+  it('should strip internal keys from the payload', () => {
+    const store = {
+      object: {
+        username: 'jdoe',
+        $meta: { dirty: true },
+        userExperience: [{ $id: 'exp-1', employer: 'Acme', startDate: '' }],
+      },
+    }
+
+    expect(defaultPayloadSerializer.serialize({ fields: [experienceList] }, store)).toEqual({
+      username: 'jdoe',
+      userExperience: [{ employer: 'Acme', startDate: '' }],
+    })
+    // The store is not modified
+    expect(store.object.userExperience[0].$id).toBe('exp-1')
+  })
+
+  it('should omit the values of hidden fields', () => {
+    const fields: FormField[] = [
+      { fieldName: 'Has company', fieldType: 'Checkbox', binding: 'object.hasCompany' },
+      {
+        fieldName: 'Company',
+        fieldType: 'Text',
+        binding: 'object.company',
+        dependsOn: { field: 'object.hasCompany', value: true },
+      },
+    ]
+    const store = { object: { hasCompany: false, company: 'Stale Inc' } }
+
+    expect(defaultPayloadSerializer.serialize({ fields }, store)).toEqual({ hasCompany: false })
+  })
+
+  it('should keep values that a visible field binds when a hidden field shares them', () => {
+    const fields: FormField[] = [
+      { fieldName: 'Is business', fieldType: 'Checkbox', binding: 'object.isBusiness' },
+      // Alternative inputs for the same value: only one is visible
+      { fieldName: 'Company', fieldType: 'Text', binding: 'object.name', visibleWhen: 'object.isBusiness == true' },
+      { fieldName: 'Full name', fieldType: 'Text', binding: 'object.name', visibleWhen: 'object.isBusiness != true' },
+      // A hidden field bound to an object holding a visible field's value
+      { fieldName: 'Address', fieldType: 'Text', binding: 'object.address', visibleWhen: 'object.isBusiness == true' },
+      { fieldName: 'City', fieldType: 'Text', binding: 'object.address.city' },
+    ]
+    const store = { object: { isBusiness: false, name: 'Ada Lovelace', address: { city: 'London' } } }
+
+    expect(defaultPayloadSerializer.serialize({ fields }, store)).toEqual({
+      isBusiness: false,
+      name: 'Ada Lovelace',
+      address: { city: 'London' },
+    })
+  })
+
+  it('should apply output transforms, including nested List fields', () => {
+    const file = new File(['hello'], 'cv.pdf', { type: 'application/pdf' })
+    const fields: FormField[] = [
+      { fieldName: 'Birth date', fieldType: 'Date', binding: 'object.birthDate', output: 'isoDate' },
+      { fieldName: 'Age', fieldType: 'Number', binding: 'object.age', output: 'string' },
+      { fieldName: 'CV', fieldType: 'File', binding: 'object.cv', output: 'fileMetadata' },
+      { fieldName: 'Nickname', fieldType: 'Text', binding: 'object.nickname', output: (value) => value.toUpperCase() },
+      experienceList,
+    ]
+    const store = {
+      object: {
+        birthDate: '1990-05-01',
+        age: 34,
+        cv: file,
+        nickname: 'jd',
+        userExperience: [{ $id: 'exp-1', employer: 'Acme', startDate: '2020-01-01' }],
+      },
+    }
+
+    expect(defaultPayloadSerializer.serialize({ fields }, store)).toEqual({
+      birthDate: '1990-05-01T00:00:00.000Z',
+      age: '34',
+      cv: { name: 'cv.pdf', size: 5, type: 'application/pdf', lastModified: file.lastModified },
+      nickname: 'JD',
+      userExperience: [{ employer: 'Acme', startDate: Date.UTC(2020, 0, 1) }],
+    })
+  })
+
+  it('should throw for unregistered transforms', () => {
+    const serializer = new PayloadSerializer(builtInOutputTransforms)
+    const fields: FormField[] = [{ fieldName: 'Price', fieldType: 'Number', binding: 'object.price', output: 'cents' }]
+
+    expect(() => serializer.serialize({ fields }, { object: { price: 1.5 } })).toThrow(
+      'Output transform "cents" is not registered'
+    )
+
+    serializer.register('cents', (value) => Math.round(Number(value) * 100))
+    expect(serializer.serialize({ fields }, { object: { price: 1.5 } })).toEqual({ price: 150 })
+    expect(() => serializer.register('cents', () => 0)).toThrow('already registered')
+  })
+})
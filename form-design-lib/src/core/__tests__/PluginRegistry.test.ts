@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import React from 'react'
+import { renderHook } from '@testing-library/react'
+import { FieldRegistry, BaseFieldProps } from '../FieldRegistry'
+import { ValidationEngine } from '../ValidationEngine'
+import { PayloadSerializer } from '../PayloadSerializer'
+import { SourceAdapterRegistry, SourceAdapter } from '../SourceAdapterRegistry'
+import { PluginRegistry, PluginTargets, FormPlugin, copyPluginTargets } from '../PluginRegistry'
+import { usePlugins } from '../../hooks/usePlugins'
+
+const LocationField: React.FC<BaseFieldProps> = ({ value }) => React.createElement('div', null, String(value))
+
+const geocoderAdapter: SourceAdapter = {
+  resolve: () => ({ ready: true, signature: '', endpoint: 'geocoder', params: {} }),
+  fetch: () => [],
+}
+
+const mapsPlugin: FormPlugin = {
+  name: 'maps',
+  fields: {
+    Location: { component: LocationField, meta: { displayName: 'Location', valueType: 'any' } },
+    Coordinates: LocationField,
+  },
+  validationRules: [
+    {
+      name: 'insideServiceArea',
+      appliesTo: (field) => field.fieldType === ('maps/Location' as any),
+      validate: (value) => (value?.lat > 0 ? undefined : 'Outside the service area'),
+    },
+  ],
+  transforms: {
+    geoJson: (value) => ({ type: 'Point', coordinates: [value.lng, value.lat] }),
+  },
+  sourceTypes: {
+    Geocoder: geocoderAdapter,
+  },
+}
+
+describe('PluginRegistry', () => {
+  let targets: PluginTargets
+  let plugins: PluginRegistry
+
+  beforeEach(() => {
+    targets = {
+      fieldRegistry: new FieldRegistry(),
+      validationEngine: new ValidationEngine(),
+      payloadSerializer: new PayloadSerializer(),
+      sourceAdapters: new SourceAdapterRegistry(),
+    }
+    plugins = new PluginRegistry(targets)
+  })
+
+  it('should register everything under the plugin namespace', () => {
+    plugins.install(mapsPlugin)
+
+    expect(targets.fieldRegistry.get('maps/Location')).toBe(LocationField)
+    expect(targets.fieldRegistry.getMeta('maps/Location')?.displayName).toBe('Location')
+    expect(targets.fieldRegistry.has('maps/Coordinates')).toBe(true)
+    expect(targets.validationEngine.has('maps/insideServiceArea')).toBe(true)
+    expect(targets.payloadSerializer.has('maps/geoJson')).toBe(true)
+    expect(targets.sourceAdapters.get('maps/Geocoder')).toBe(geocoderAdapter)
+    expect(plugins.getInstalledPlugins()).toEqual(['maps'])
+  })
+
+  it('should call setup once with the targets', () => {
+    const setup = vi.fn()
+    plugins.install({ name: 'themes', setup })
+
+    expect(setup).toHaveBeenCalledTimes(1)
+    expect(setup).toHaveBeenCalledWith(targets)
+  })
+
+  it('should throw when the plugin is already installed', () => {
+    plugins.install(mapsPlugin)
+    expect(() => plugins.install(mapsPlugin)).toThrow(
+      'Plugin "maps" is already installed. Use override=true to replace it.'
+    )
+  })
+
+  it('should report conflicts without registering anything', () => {
+    targets.payloadSerializer.register('maps/geoJson', (value) => value)
+
+    expect(() => plugins.install(mapsPlugin)).toThrow(
+      'Plugin "maps" conflicts with existing registrations: output transform "maps/geoJson"'
+    )
+    expect(targets.fieldRegistry.size()).toBe(0)
+    expect(targets.validationEngine.size()).toBe(0)
+    expect(plugins.has('maps')).toBe(false)
+  })
+
+  it('should replace registrations with override=true', () => {
+    targets.payloadSerializer.register('maps/geoJson', (value) => value)
+    plugins.install(mapsPlugin, true)
+
+    expect(targets.payloadSerializer.get('maps/geoJson')).toBe(mapsPlugin.transforms!.geoJson)
+  })
+
+  it('should remove registrations on uninstall', () => {
+    plugins.install(mapsPlugin)
+
+    expect(plugins.uninstall('maps')).toBe(true)
+    expect(targets.fieldRegistry.size()).toBe(0)
+    expect(targets.validationEngine.size()).toBe(0)
+    expect(targets.payloadSerializer.getRegisteredTransforms()).toEqual([])
+    expect(targets.sourceAdapters.size()).toBe(0)
+    expect(plugins.uninstall('maps')).toBe(false)
+  })
+
+  it('should copy targets without sharing registrations', () => {
+    targets.fieldRegistry.register('Text', LocationField, { displayName: 'Text' })
+    const copy = copyPluginTargets(targets)
+    new PluginRegistry(copy).install(mapsPlugin)
+
+    expect(copy.fieldRegistry.getMeta('Text')?.displayName).toBe('Text')
+    expect(copy.fieldRegistry.has('maps/Location')).toBe(true)
+    expect(targets.fieldRegistry.has('maps/Location')).toBe(false)
+  })
+})
+
+describe('usePlugins', () => {
+  it('should install plugins into copies of the base registries', () => {
+    const base = {
+      fieldRegistry: new FieldRegistry(),
+      validationEngine: new ValidationEngine(),
+      payloadSerializer: new PayloadSerializer(),
+      sourceAdapters: new SourceAdapterRegistry(),
+    }
+    const { result, rerender } = renderHook(({ plugins }) => usePlugins(plugins, base), {
+      initialProps: { plugins: [mapsPlugin] },
+    })
+
+    expect(result.current.fieldRegistry).not.toBe(base.fieldRegistry)
+    expect(result.current.fieldRegistry.has('maps/Location')).toBe(true)
+    expect(base.fieldRegistry.has('maps/Location')).toBe(false)
+
+    // Same plugin names: the registries are kept
+    const { fieldRegistry } = result.current
+    rerender({ plugins: [{ ...mapsPlugin }] })
+    expect(result.current.fieldRegistry).toBe(fieldRegistry)
+  })
+
+  it('should return the base registries without plugins', () => {
+    const base = {
+      fieldRegistry: new FieldRegistry(),
+      validationEngine: new ValidationEngine(),
+      payloadSerializer: new PayloadSerializer(),
+      sourceAdapters: new SourceAdapterRegistry(),
+    }
+    const { result } = renderHook(() => usePlugins([], base))
+
+    expect(result.current).toEqual(base)
+    expect(result.current.fieldRegistry).toBe(base.fieldRegistry)
+  })
+})
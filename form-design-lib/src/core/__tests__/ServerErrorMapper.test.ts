@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { ServerErrorMapper, defaultServerErrorMapper, toBindingPath } from '../ServerErrorMapper'
+import { builtInServerErrorFormats } from '../serverErrorFormats'
+
+describe('ServerErrorMapper', () => {
+  describe('registry', () => {
+    it('should register the built-in formats in order', () => {
+      expect(defaultServerErrorMapper.getRegisteredFormats()).toEqual(['problemDetails', 'errorList', 'errorMap'])
+    })
+
+    it('should throw error when registering duplicate format without override', () => {
+      const mapper = new ServerErrorMapper(builtInServerErrorFormats)
+      const format = { name: 'errorMap', matches: () => false, parse: () => ({ fieldErrors: {} }) }
+
+      expect(() => mapper.register(format)).toThrow('Server error format "errorMap" is already registered')
+      mapper.register(format, true)
+      expect(mapper.get('errorMap')).toBe(format)
+    })
+
+    it('should use custom formats', () => {
+      const mapper = new ServerErrorMapper([
+        {
+          name: 'legacy',
+          matches: (payload) => Array.isArray(payload.failures),
+          parse: (payload) => ({
+            fieldErrors: Object.fromEntries(payload.failures.map((f: any) => [f.key, f.text])),
+          }),
+        },
+      ])
+
+      expect(mapper.map({ body: { failures: [{ key: 'email', text: 'Invalid' }] } })).toEqual({
+        fieldErrors: { 'object.email': 'Invalid' },
+        formError: undefined,
+      })
+    })
+  })
+
+  describe('map', () => {
+    it('should map a flat error map with relative paths', () => {
+      const error = Object.assign(new Error('Bad Request'), {
+        body: { errors: { 'userExperience[1].employer': 'Unknown employer', username: ['Taken', 'Too short'] } },
+      })
+
+      expect(defaultServerErrorMapper.map(error)).toEqual({
+        fieldErrors: {
+          'object.userExperience[1].employer': 'Unknown employer',
+          'object.username': 'Taken',
+        },
+        formError: undefined,
+      })
+    })
+
+    it('should map RFC 7807 problem details', () => {
+      const error = {
+        response: {
+          data: {
+            type: 'https://example.com/validation-error',
+            title: 'Your request parameters did not validate.',
+            status: 400,
+            'invalid-params': [
+              { name: 'age', reason: 'must be a positive integer' },
+              { name: '/userExperience/0/employer', reason: 'is required' },
+            ],
+          },
+        },
+      }
+
+      expect(defaultServerErrorMapper.map(error)).toEqual({
+        fieldErrors: {
+          'object.age': 'must be a positive integer',
+          'object.userExperience[0].employer': 'is required',
+        },
+        formError: 'Your request parameters did not validate.',
+      })
+    })
+
+    it('should map an array of { path, message } entries', () => {
+      const payload = [
+        { path: 'object.email', message: 'Invalid email' },
+        { message: 'Account is locked' },
+      ]
+
+      expect(defaultServerErrorMapper.map({ data: payload })).toEqual({
+        fieldErrors: { 'object.email': 'Invalid email' },
+        formError: 'Account is locked',
+      })
+    })
+
+    it('should return no errors for unknown payloads', () => {
+      expect(defaultServerErrorMapper.map(new Error('Network error'))).toEqual({ fieldErrors: {} })
+      expect(defaultServerErrorMapper.map(undefined)).toEqual({ fieldErrors: {} })
+    })
+  })
+
+  describe('toBindingPath', () => {
+    it('should resolve paths relative to the data source', () => {
+      expect(toBindingPath('userExperience.1.employer')).toBe('object.userExperience[1].employer')
+      expect(toBindingPath('$.username')).toBe('object.username')
+      expect(toBindingPath('object.username')).toBe('object.username')
+      expect(toBindingPath('name', { dataSource: 'user' })).toBe('user.name')
+      expect(toBindingPath('settings.theme', { sourceNames: ['object', 'settings'] })).toBe('settings.theme')
+    })
+  })
+})
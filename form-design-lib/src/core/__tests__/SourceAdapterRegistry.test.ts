@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { SourceAdapterRegistry, SourceAdapter, defaultSourceAdapterRegistry } from '../SourceAdapterRegistry'
+import {
+  builtInSourceAdapters,
+  apiSourceAdapter,
+  staticSourceAdapter,
+  queryStringSourceAdapter,
+  localStorageSourceAdapter,
+  computedSourceAdapter,
+} from '../sourceAdapters'
+import type { ApiProvider, FormSource } from '../../types'
+
+const apiProvider: ApiProvider = { call: vi.fn(async () => null) }
+const signal = new AbortController().signal
+
+const sessionAdapter: SourceAdapter = {
+  resolve: (source) => ({ ready: true, signature: source.sourceName, endpoint: 'session', params: {} }),
+  fetch: () => 'session',
+}
+
+describe('SourceAdapterRegistry', () => {
+  it('should register and get adapters', () => {
+    const registry = new SourceAdapterRegistry()
+    registry.register('Session', sessionAdapter)
+
+    expect(registry.get('Session')).toBe(sessionAdapter)
+    expect(registry.has('Session')).toBe(true)
+    expect(registry.getRegisteredTypes()).toEqual(['Session'])
+  })
+
+  it('should throw when registering an existing type without override', () => {
+    const registry = new SourceAdapterRegistry({ Session: sessionAdapter })
+
+    expect(() => registry.register('Session', sessionAdapter)).toThrow(
+      'Source type "Session" is already registered. Use override=true to replace it.'
+    )
+    expect(() => registry.register('Session', sessionAdapter, true)).not.toThrow()
+  })
+
+  it('should unregister and clear adapters', () => {
+    const registry = new SourceAdapterRegistry(builtInSourceAdapters)
+
+    expect(registry.unregister('Static')).toBe(true)
+    expect(registry.has('Static')).toBe(false)
+    registry.clear()
+    expect(registry.size()).toBe(0)
+  })
+
+  it('should have the built-in source types by default', () => {
+    expect(defaultSourceAdapterRegistry.getRegisteredTypes()).toEqual([
+      'API',
+      'Static',
+      'QueryString',
+      'LocalStorage',
+      'Computed',
+    ])
+  })
+})
+
+describe('built-in source adapters', () => {
+  afterEach(() => {
+    localStorage.clear()
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('API should pass the request options and the abort signal to the provider', async () => {
+    const source: FormSource = {
+      sourceName: 'cityList',
+      sourceType: 'API',
+      endpoint: '/api/cities',
+      method: 'POST',
+      body: { limit: 20 },
+    }
+
+    await apiSourceAdapter.fetch(source, { apiProvider, signal, store: {} })
+    expect(apiProvider.call).toHaveBeenCalledWith('/api/cities', 'POST', { body: { limit: 20 }, signal })
+  })
+
+  it('Static should resolve parameters in the inline data', () => {
+    const source: FormSource = {
+      sourceName: 'greeting',
+      sourceType: 'Static',
+      parameters: { name: 'object.firstName' },
+      data: { text: 'Hello {name}', options: [{ label: 'Yes', value: true }] },
+    }
+    const store = { object: { firstName: 'Ada' } }
+
+    expect(staticSourceAdapter.resolve(source, store).ready).toBe(true)
+    expect(staticSourceAdapter.fetch(source, { apiProvider, signal, store })).toEqual({
+      text: 'Hello Ada',
+      options: [{ label: 'Yes', value: true }],
+    })
+    expect(staticSourceAdapter.resolve(source, { object: {} }).ready).toBe(false)
+  })
+
+  it('QueryString should parse the URL parameters', () => {
+    window.history.replaceState(null, '', '/?ref=mail&tag=a&tag=b')
+    const source: FormSource = { sourceName: 'query', sourceType: 'QueryString' }
+
+    expect(queryStringSourceAdapter.fetch(source, { apiProvider, signal, store: {} })).toEqual({
+      ref: 'mail',
+      tag: ['a', 'b'],
+    })
+  })
+
+  it('QueryString should report history navigation', () => {
+    const onChange = vi.fn()
+    const unsubscribe = queryStringSourceAdapter.subscribe!({ sourceName: 'query', sourceType: 'QueryString' }, onChange)
+
+    window.dispatchEvent(new PopStateEvent('popstate'))
+    unsubscribe()
+    window.dispatchEvent(new PopStateEvent('popstate'))
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('LocalStorage should read the stored value with the data as fallback', () => {
+    const source: FormSource = {
+      sourceName: 'preferences',
+      sourceType: 'LocalStorage',
+      storageKey: 'user-preferences',
+      data: { theme: 'light' },
+    }
+
+    expect(localStorageSourceAdapter.fetch(source, { apiProvider, signal, store: {} })).toEqual({ theme: 'light' })
+
+    localStorage.setItem('user-preferences', JSON.stringify({ theme: 'dark' }))
+    expect(localStorageSourceAdapter.fetch(source, { apiProvider, signal, store: {} })).toEqual({ theme: 'dark' })
+
+    localStorage.setItem('user-preferences', 'plain text')
+    expect(localStorageSourceAdapter.fetch(source, { apiProvider, signal, store: {} })).toBe('plain text')
+  })
+
+  it('Computed should evaluate the expression and change signature with its inputs', () => {
+    const source: FormSource = {
+      sourceName: 'countryCount',
+      sourceType: 'Computed',
+      expression: 'countryList.length',
+    }
+    const store = { countryList: [{ code: 'US' }, { code: 'CA' }] }
+
+    expect(computedSourceAdapter.fetch(source, { apiProvider, signal, store })).toBe(2)
+    expect(computedSourceAdapter.resolve(source, store).signature).not.toBe(
+      computedSourceAdapter.resolve(source, { countryList: [] }).signature
+    )
+  })
+
+  it('Computed should change signature when items read through a wildcard change', () => {
+    const source: FormSource = {
+      sourceName: 'orderTotal',
+      sourceType: 'Computed',
+      expression: 'sum(object.lineItems[*].amount)',
+    }
+    const store = { object: { lineItems: [{ amount: 10 }, { amount: 5 }] } }
+    const changed = { object: { lineItems: [{ amount: 10 }, { amount: 7 }] } }
+
+    expect(computedSourceAdapter.fetch(source, { apiProvider, signal, store })).toBe(15)
+    expect(computedSourceAdapter.resolve(source, store).signature).not.toBe(
+      computedSourceAdapter.resolve(source, changed).signature
+    )
+  })
+
+  it('Computed should throw without an expression', () => {
+    expect(() =>
+      computedSourceAdapter.fetch({ sourceName: 'empty', sourceType: 'Computed' }, { apiProvider, signal, store: {} })
+    ).toThrow('Computed source "empty" has no expression')
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SourceCache, getSourceCacheKey, invalidateSource } from '../SourceCache'
+import type { ResolvedSource } from '../SourceAdapterRegistry'
+import type { FormSource } from '../../types'
+
+const countryList: FormSource = {
+  sourceName: 'countryList',
+  sourceType: 'API',
+  endpoint: '/api/countries',
+  cache: { ttl: 1000, staleWhileRevalidate: 1000 },
+}
+
+const resolved: ResolvedSource = { ready: true, signature: 'GET /api/countries', endpoint: '/api/countries', params: {} }
+
+describe('SourceCache', () => {
+  let time: number
+  let cache: SourceCache
+
+  beforeEach(() => {
+    time = 0
+    cache = new SourceCache(() => time)
+  })
+
+  it('should share identical concurrent requests', async () => {
+    const fetcher = vi.fn(async () => ['US', 'CA'])
+    const uncached: FormSource = { ...countryList, cache: undefined }
+
+    const [first, second] = await Promise.all([
+      cache.fetch(uncached, resolved, fetcher),
+      cache.fetch(uncached, resolved, fetcher),
+    ])
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(first).toEqual(['US', 'CA'])
+    expect(second).toBe(first)
+    // Without cache settings, nothing is kept once the request ends
+    expect(cache.size()).toBe(0)
+  })
+
+  it('should reuse responses within the ttl', async () => {
+    const fetcher = vi.fn(async () => ['US'])
+
+    await cache.fetch(countryList, resolved, fetcher)
+    time = 999
+    await cache.fetch(countryList, resolved, fetcher)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    time = 2000
+    await cache.fetch(countryList, resolved, fetcher)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return stale responses while revalidating in the background', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce(['US']).mockResolvedValueOnce(['US', 'CA'])
+    const listener = vi.fn()
+    cache.subscribe(listener)
+
+    await cache.fetch(countryList, resolved, fetcher)
+    time = 1500
+
+    await expect(cache.fetch(countryList, resolved, fetcher)).resolves.toEqual(['US'])
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(['countryList']))
+    await expect(cache.fetch(countryList, resolved, fetcher)).resolves.toEqual(['US', 'CA'])
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should use the cache key to share sources of different forms', async () => {
+    const fetcher = vi.fn(async () => ['US'])
+    const otherForm: FormSource = { ...countryList, sourceName: 'countries', cache: { ttl: 1000, key: 'countries' } }
+    const sameKey: FormSource = { ...otherForm, sourceName: 'countryOptions' }
+
+    expect(getSourceCacheKey(otherForm, resolved)).toBe(getSourceCacheKey(sameKey, resolved))
+    await cache.fetch(otherForm, resolved, fetcher)
+    await cache.fetch(sameKey, resolved, fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('should invalidate by source name and notify listeners', async () => {
+    const fetcher = vi.fn(async () => ['US'])
+    const listener = vi.fn()
+    cache.subscribe(listener)
+
+    await cache.fetch(countryList, resolved, fetcher)
+    expect(cache.has(countryList, resolved)).toBe(true)
+
+    invalidateSource('countryList', cache)
+
+    expect(cache.has(countryList, resolved)).toBe(false)
+    expect(listener).toHaveBeenCalledWith(['countryList'])
+    await cache.fetch(countryList, resolved, fetcher)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should abort the shared request only when every caller aborted', async () => {
+    let requestSignal: AbortSignal | undefined
+    const fetcher = vi.fn((signal: AbortSignal) => {
+      requestSignal = signal
+      return new Promise(() => {})
+    })
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const firstRequest = cache.fetch(countryList, resolved, fetcher, first.signal)
+    const secondRequest = cache.fetch(countryList, resolved, fetcher, second.signal)
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1))
+
+    first.abort()
+    await expect(firstRequest).rejects.toThrow('aborted')
+    expect(requestSignal?.aborted).toBe(false)
+
+    second.abort()
+    await expect(secondRequest).rejects.toThrow('aborted')
+    expect(requestSignal?.aborted).toBe(true)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { SourceGraph, SourceGraphError, createSourceGraph } from '../SourceGraph'
+import type { FormSource } from '../../types'
+
+const source = (sourceName: string, parameters?: Record<string, string>): FormSource => ({
+  sourceName,
+  sourceType: 'API',
+  endpoint: `/api/${sourceName}`,
+  parameters,
+})
+
+describe('SourceGraph', () => {
+  const sources = [
+    source('cityList', { state: 'stateList[0].code' }),
+    source('stateList', { country: 'countryList.selected' }),
+    source('countryList'),
+    source('languageList'),
+    source('object', { id: 'queryString.userId' }),
+  ]
+
+  it('should order sources after the sources they read', () => {
+    const graph = new SourceGraph(sources, { knownRoots: ['queryString'] })
+    const order = graph.getOrder().map((s) => s.sourceName)
+
+    expect(order.indexOf('countryList')).toBeLessThan(order.indexOf('stateList'))
+    expect(order.indexOf('stateList')).toBeLessThan(order.indexOf('cityList'))
+    expect(graph.getDependencies('cityList')).toEqual(['stateList'])
+    expect(graph.getDependents('countryList')).toEqual(['stateList'])
+  })
+
+  it('should group independent sources into parallel levels', () => {
+    const graph = new SourceGraph(sources, { knownRoots: ['queryString'] })
+
+    expect(graph.getLevels()).toEqual([['countryList', 'languageList', 'object'], ['stateList'], ['cityList']])
+    expect(graph.toJSON()).toEqual({
+      countryList: [],
+      stateList: ['countryList'],
+      cityList: ['stateList'],
+      languageList: [],
+      object: [],
+    })
+  })
+
+  it('should ignore sources reading their own data', () => {
+    const graph = new SourceGraph([source('object', { id: 'object.id' })])
+    expect(graph.getDependencies('object')).toEqual([])
+  })
+
+  it('should report references to unknown sources', () => {
+    expect(() => new SourceGraph([source('stateList', { country: 'countrList.code' })])).toThrow(
+      'Source "stateList" reads "countrList.code", but there is no source "countrList"'
+    )
+  })
+
+  it('should report cycles', () => {
+    const cyclic = [source('a', { b: 'b.id' }), source('b', { c: 'c.id' }), source('c', { a: 'a.id' })]
+
+    expect(() => new SourceGraph(cyclic)).toThrow('Circular source dependency: a -> b -> c -> a')
+    try {
+      new SourceGraph(cyclic)
+    } catch (error) {
+      expect(error).toBeInstanceOf(SourceGraphError)
+      expect((error as SourceGraphError).sourceNames).toEqual(['a', 'b', 'c'])
+    }
+  })
+
+  it('should use custom dependencies', () => {
+    const computed: FormSource = { sourceName: 'total', sourceType: 'Computed', expression: 'len(countryList)' }
+    const graph = new SourceGraph([computed, source('countryList')], {
+      getDependencies: (s) => (s.sourceType === 'Computed' ? ['countryList'] : []),
+    })
+
+    expect(graph.getOrder().map((s) => s.sourceName)).toEqual(['countryList', 'total'])
+  })
+})
+
+describe('createSourceGraph', () => {
+  it('should leave out invalid sources and keep the others', () => {
+    const { graph, errors } = createSourceGraph([
+      source('a', { b: 'b.id' }),
+      source('b', { a: 'a.id' }),
+      source('typo', { id: 'missing.id' }),
+      source('countryList'),
+      source('dependent', { a: 'a.id' }),
+    ])
+
+    expect(errors.map((error) => error.message)).toEqual([
+      'Source "typo" reads "missing.id", but there is no source "missing"',
+      'Circular source dependency: a -> b -> a',
+    ])
+    expect(graph.getOrder().map((s) => s.sourceName)).toEqual(['countryList', 'dependent'])
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { SourceTransformer, defaultSourceTransformer } from '../SourceTransformer'
+import { builtInSourceTransforms } from '../sourceTransforms'
+import type { FormSource } from '../../types'
+
+const response = {
+  data: {
+    total: 3,
+    countries: [
+      { iso: 'US', name: 'United States', active: true },
+      { iso: 'DE', name: 'Germany', active: false },
+      { iso: 'CA', name: 'Canada', active: true },
+    ],
+  },
+}
+
+const countryList: FormSource = { sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries' }
+
+describe('SourceTransformer', () => {
+  it('should register transforms and throw on duplicates without override', () => {
+    const transformer = new SourceTransformer({ reverse: (data) => [...data].reverse() })
+
+    expect(transformer.has('reverse')).toBe(true)
+    expect(() => transformer.register('reverse', (data) => data)).toThrow(
+      'Source transform "reverse" is already registered. Use override=true to replace it.'
+    )
+    expect(transformer.unregister('reverse')).toBe(true)
+    expect(transformer.size()).toBe(0)
+  })
+
+  it('should have the built-in transforms by default', () => {
+    expect(defaultSourceTransformer.getRegisteredTransforms()).toEqual(['map', 'filter', 'sortBy', 'rename'])
+  })
+
+  it('should return the response as-is without select and transform', () => {
+    expect(defaultSourceTransformer.apply(countryList, response)).toBe(response)
+  })
+
+  it('should select a path or an expression of the response', () => {
+    expect(defaultSourceTransformer.apply({ ...countryList, select: 'data.countries' }, response)).toHaveLength(3)
+    expect(defaultSourceTransformer.apply({ ...countryList, select: 'data.countries[1].iso' }, response)).toBe('DE')
+    expect(defaultSourceTransformer.apply({ ...countryList, select: 'response[0]' }, ['first', 'second'])).toBe('first')
+    expect(defaultSourceTransformer.apply({ ...countryList, select: 'len(data.countries) == data.total' }, response)).toBe(true)
+  })
+
+  it('should apply transforms in order after select', () => {
+    const source: FormSource = {
+      ...countryList,
+      select: 'data.countries',
+      transform: [
+        { name: 'filter', expression: 'active' },
+        { name: 'map', fields: { value: 'iso', label: "name + ' (' + iso + ')'", position: 'index' } },
+        { name: 'sortBy', key: 'label' },
+      ],
+    }
+
+    expect(defaultSourceTransformer.apply(source, response)).toEqual([
+      { value: 'CA', label: 'Canada (CA)', position: 1 },
+      { value: 'US', label: 'United States (US)', position: 0 },
+    ])
+  })
+
+  it('should rename keys of an object or of every item', () => {
+    const transformer = new SourceTransformer(builtInSourceTransforms)
+    const rename = { name: 'rename', fields: { iso: 'value', name: 'label' } }
+
+    expect(transformer.apply({ ...countryList, select: 'data.countries[0]', transform: [rename] }, response)).toEqual({
+      value: 'US',
+      label: 'United States',
+      active: true,
+    })
+    expect(
+      transformer.apply({ ...countryList, select: 'data.countries', transform: [rename, { name: 'sortBy', key: 'value', order: 'desc' }] }, response)
+        .map((item: any) => item.value)
+    ).toEqual(['US', 'DE', 'CA'])
+  })
+
+  it('should map items to a single expression and accept transform names', () => {
+    const transformer = new SourceTransformer(builtInSourceTransforms)
+    transformer.register('unique', (data) => Array.from(new Set(data)))
+
+    const source: FormSource = {
+      ...countryList,
+      select: 'response',
+      transform: [{ name: 'map', expression: 'upper(item)' }, 'unique'],
+    }
+    expect(transformer.apply(source, ['us', 'ca', 'us'])).toEqual(['US', 'CA'])
+  })
+
+  it('should throw for unregistered transforms and non-array data', () => {
+    expect(() => defaultSourceTransformer.apply({ ...countryList, transform: ['pluck'] }, response)).toThrow(
+      'Source transform "pluck" is not registered'
+    )
+    expect(() => defaultSourceTransformer.apply({ ...countryList, transform: [{ name: 'sortBy', key: 'name' }] }, response)).toThrow(
+      'Source transform "sortBy" of "countryList" expects an array, got object'
+    )
+  })
+})
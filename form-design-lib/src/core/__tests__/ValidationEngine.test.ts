@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ValidationEngine, ValidationRule, defaultValidationEngine } from '../ValidationEngine'
+import { builtInValidationRules } from '../validationRules'
+import type { FormField } from '../../types'
+
+const textField = (overrides: Partial<FormField> = {}): FormField => ({
+  fieldName: 'Username',
+  fieldType: 'Text',
+  binding: 'object.username',
+  ...overrides,
+})
+
+describe('ValidationEngine', () => {
+  let engine: ValidationEngine
+
+  beforeEach(() => {
+    engine = new ValidationEngine(builtInValidationRules)
+  })
+
+  describe('registry', () => {
+    it('should register the built-in rules in order', () => {
+      expect(engine.getRegisteredRules()[0]).toBe('required')
+      expect(engine.getRegisteredRules()).toContain('customValidator')
+      expect(defaultValidationEngine.size()).toBe(builtInValidationRules.length)
+    })
+
+    it('should throw error when registering duplicate rule without override', () => {
+      const rule: ValidationRule = { name: 'required', validate: () => undefined }
+      expect(() => engine.register(rule)).toThrow('Validation rule "required" is already registered')
+      engine.register(rule, true)
+      expect(engine.get('required')).toBe(rule)
+    })
+
+    it('should run custom rules only for fields they apply to', async () => {
+      engine.register({
+        name: 'noSpaces',
+        appliesTo: (field) => field.fieldType === 'Text',
+        validate: (value) => (/\s/.test(String(value)) ? 'Spaces are not allowed' : undefined),
+      })
+
+      expect(await engine.validateField(textField(), 'john doe', {})).toBe('Spaces are not allowed')
+      expect(
+        await engine.validateField(textField({ fieldType: 'Textarea' }), 'john doe', {})
+      ).toBeUndefined()
+    })
+
+    it('should report an error when a rule throws', async () => {
+      engine.register({
+        name: 'broken',
+        validate: () => {
+          throw new Error('boom')
+        },
+      })
+      expect(await engine.validateField(textField(), 'john', {})).toBe('Validation error occurred')
+    })
+  })
+
+  describe('built-in rules', () => {
+    it('should validate required fields', async () => {
+      const field = textField({ required: true })
+      expect(await engine.validateField(field, '', {})).toBe('Username is required')
+      expect(await engine.validateField(field, 'john', {})).toBeUndefined()
+    })
+
+    it('should skip non-required rules for empty values', async () => {
+      expect(await engine.validateField(textField({ minLength: 3 }), '', {})).toBeUndefined()
+    })
+
+    it('should validate length and pattern', async () => {
+      expect(await engine.validateField(textField({ minLength: 3 }), 'jo', {})).toBe(
+        'Must be at least 3 characters'
+      )
+      expect(await engine.validateField(textField({ maxLength: 1 }), 'jo', {})).toBe(
+        'Must be no more than 1 character'
+      )
+      expect(
+        await engine.validateField(textField({ validationPattern: '^[a-z]+$' }), 'Jo', {})
+      ).toBe('Invalid format')
+    })
+
+    it('should validate number bounds', async () => {
+      const field = textField({ fieldType: 'Number', min: 18, max: 99 })
+      expect(await engine.validateField(field, 12, {})).toBe('Value must be at least 18')
+      expect(await engine.validateField(field, 100, {})).toBe('Value must be no more than 99')
+      expect(await engine.validateField(field, 'abc', {})).toBe('Please enter a valid number')
+    })
+
+    it('should validate DateRange ordering', async () => {
+      const field = textField({ fieldType: 'DateRange' })
+      expect(
+        await engine.validateField(field, { startDate: '2024-05-10', endDate: '2024-05-01' }, {})
+      ).toBe('End date must be after start date')
+    })
+
+    it('should validate maxSelections', async () => {
+      const field = textField({ fieldType: 'MultiSelect', maxSelections: 2 })
+      expect(await engine.validateField(field, ['a', 'b', 'c'], {})).toBe('Maximum 2 selections allowed')
+    })
+
+    it('should flag selections missing from loaded options', async () => {
+      const field = textField({ fieldType: 'Dropdown', optionsSource: 'states', valueProperty: 'code' })
+      const store = { states: [{ code: 'CA' }, { code: 'NY' }] }
+
+      expect(await engine.validateField(field, 'TX', store)).toBe('The selected option is no longer available')
+      expect(await engine.validateField(field, 'CA', store)).toBeUndefined()
+      // Options not loaded yet
+      expect(await engine.validateField(field, 'TX', { states: [] })).toBeUndefined()
+    })
+
+    it('should pass the store to custom validators', async () => {
+      const field = textField({
+        customValidator: (value, _field, store) =>
+          value === store.object.password ? undefined : 'Passwords do not match',
+      })
+      expect(await engine.validateField(field, 'a', { object: { password: 'b' } })).toBe(
+        'Passwords do not match'
+      )
+    })
+
+    it('should respect validateOn triggers', async () => {
+      const field = textField({ required: true, validateOn: ['onBlur'] })
+      expect(await engine.validateField(field, '', {}, 'onChange')).toBeUndefined()
+      expect(await engine.validateField(field, '', {}, 'onBlur')).toBe('Username is required')
+    })
+  })
+
+  describe('validateForm', () => {
+    it('should validate visible fields outside React', async () => {
+      const config = {
+        fields: [
+          textField({ required: true }),
+          textField({
+            fieldName: 'State',
+            binding: 'object.state',
+            required: true,
+            dependsOn: { field: 'object.country', value: 'US' },
+          }),
+        ],
+      }
+
+      const errors = await engine.validateForm(config, { object: { country: 'CA' } })
+      expect(errors).toEqual({ 'object.username': 'Username is required' })
+    })
+
+    it('should enforce minItems and maxItems on List fields', async () => {
+      const field = textField({
+        fieldName: 'Experience',
+        fieldType: 'List',
+        binding: 'object.userExperience',
+        minItems: 1,
+        maxItems: 2,
+        fields: [],
+      })
+
+      expect(await engine.validateField(field, undefined, {})).toBe('Add at least 1 item')
+      expect(await engine.validateField(field, [{}, {}, {}], {})).toBe('No more than 2 items allowed')
+      expect(await engine.validateField(field, [{}], {})).toBeUndefined()
+    })
+
+    it('should validate nested List item fields by indexed binding', async () => {
+      const config = {
+        fields: [
+          textField({
+            fieldName: 'Experience',
+            fieldType: 'List',
+            binding: 'object.userExperience',
+            itemObject: 'experienceItem',
+            fields: [
+              textField({ fieldName: 'Employer', binding: 'experienceItem.employer', required: true }),
+            ],
+          }),
+        ],
+      }
+      const store = { object: { userExperience: [{ employer: 'Acme' }, { employer: '' }] } }
+
+      const errors = await engine.validateForm(config, store)
+      expect(errors).toEqual({ 'object.userExperience[1].employer': 'Employer is required' })
+    })
+  })
+})
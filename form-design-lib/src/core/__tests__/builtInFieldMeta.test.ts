@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { FieldRegistry } from '../FieldRegistry'
+import { initializeFieldRegistry } from '../fieldRegistrySetup'
+import { builtInFieldMeta } from '../builtInFieldMeta'
+import { builtInValidationRules } from '../validationRules'
+import { getFieldDefaultValue } from '../../utils/listItems'
+import type { FieldType } from '../../types'
+
+describe('builtInFieldMeta', () => {
+  const registry = initializeFieldRegistry(new FieldRegistry())
+
+  it('should register metadata for every built-in field type', () => {
+    registry.getRegisteredTypes().forEach((fieldType) => {
+      expect(registry.getMeta(fieldType)).toBe(builtInFieldMeta[fieldType])
+    })
+    expect(registry.getAllMeta().size).toBe(registry.size())
+  })
+
+  it('should describe type-specific properties', () => {
+    expect(registry.getMeta('File')?.properties).toHaveProperty('accept')
+    expect(registry.getMeta('File')?.properties).toHaveProperty('maxFileSize')
+    expect(registry.getMeta('Radio')?.properties?.radioLayout).toMatchObject({
+      enum: ['inline', 'vertical'],
+      default: 'vertical',
+    })
+    expect(registry.getMeta('Text')?.properties).not.toHaveProperty('radioLayout')
+  })
+
+  it('should use the same default values as field resets', () => {
+    Object.entries(builtInFieldMeta).forEach(([fieldType, meta]) => {
+      const field = { fieldName: 'Field', fieldType: fieldType as FieldType, binding: 'object.field' }
+      expect(meta.defaultValue).toEqual(getFieldDefaultValue(field))
+    })
+  })
+
+  it('should only reference existing validation rules', () => {
+    const ruleNames = builtInValidationRules.map((rule) => rule.name)
+    Object.values(builtInFieldMeta).forEach((meta) => {
+      meta.validationRules?.forEach((ruleName) => expect(ruleNames).toContain(ruleName))
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import type { FieldPropertyMeta, FieldTypeMeta } from './FieldRegistry'
+
+/**
+ * Metadata of the built-in field types
+ * Registered with the built-in components by initializeFieldRegistry (fieldRegistrySetup.ts).
+ */
+
+/**
+ * FormField properties supported by every field type
+ */
+export const commonFieldProperties: Record<string, FieldPropertyMeta> = {
+  fieldName: { type: 'string', description: 'Label shown for the field' },
+  binding: { type: 'string', format: 'binding', description: 'Path of the value in the store (e.g., "object.username")' },
+  section: { type: 'string', default: 'General', description: 'Section the field is grouped in' },
+  gridSize: { type: 'number', default: 12, description: 'Column span (1-12)' },
+  required: { type: 'boolean', default: false, description: 'The field must have a value' },
+  requiredWhen: { type: 'string', format: 'expression', description: 'Required while the expression is truthy' },
+  visible: { type: ['boolean', 'object'], default: true, description: 'Visibility flag or condition' },
+  visibleWhen: { type: 'string', format: 'expression', description: 'Visible while the expression is truthy' },
+  dependsOn: { type: 'object', description: 'Show the field based on the value of another field' },
+  readOnly: { type: 'boolean', default: false, description: 'Render the field without allowing edits' },
+  compute: { type: ['string', 'object'], description: 'Expression or registered function computing the value' },
+  resetOn: { type: 'array', format: 'binding', description: 'Bindings that clear the field when they change' },
+  resetValue: { type: ['string', 'number', 'boolean', 'array', 'object'], description: 'Value applied on reset' },
+  output: {
+    type: ['string', 'function'],
+    enum: ['isoDate', 'epoch', 'string', 'number', 'fileMetadata'],
+    description: 'Output transform applied to the submitted value',
+  },
+  validateOn: {
+    type: 'array',
+    enum: ['onChange', 'onBlur', 'onSubmit'],
+    default: ['onSubmit'],
+    description: 'When the field is validated',
+  },
+  validations: { type: 'array', description: 'Expression checks ({ expression, message })' },
+  customValidator: { type: 'function', description: 'Custom validation function' },
+  errorMessages: { type: 'object', description: 'Custom error messages by rule' },
+}
+
+const commonValidationRules = ['required', 'expression', 'customValidator']
+
+const textProperties: Record<string, FieldPropertyMeta> = {
+  minLength: { type: 'number', description: 'Minimum number of characters' },
+  maxLength: { type: 'number', description: 'Maximum number of characters' },
+  validationPattern: { type: 'string', format: 'regex', description: 'Regular expression the value must match' },
+}
+
+const textValidationRules = ['minLength', 'maxLength', 'pattern']
+
+const dateProperties: Record<string, FieldPropertyMeta> = {
+  minDate: { type: 'string', format: 'date', description: 'Earliest date (ISO date or "today")' },
+  maxDate: { type: 'string', format: 'date', description: 'Latest date (ISO date or "today")' },
+}
+
+const optionProperties: Record<string, FieldPropertyMeta> = {
+  optionsSource: { type: 'string', format: 'source', description: 'Source holding the options' },
+  displayProperty: { type: 'string', default: 'label', description: 'Option property shown as label' },
+  valueProperty: { type: 'string', default: 'value', description: 'Option property stored as value' },
+  optionsFilter: { type: 'string', format: 'expression', description: 'Keep options while the expression (with `option`) is truthy' },
+}
+
+const textField = (displayName: string, icon: string, description: string): FieldTypeMeta => ({
+  displayName,
+  description,
+  category: 'Text',
+  icon,
+  valueType: 'string',
+  defaultValue: '',
+  properties: { ...commonFieldProperties, ...textProperties },
+  validationRules: [...commonValidationRules, ...textValidationRules],
+})
+
+export const builtInFieldMeta: Record<string, FieldTypeMeta> = {
+  Text: textField('Text', 'type', 'Single-line text input'),
+  Email: textField('Email', 'mail', 'Email address input'),
+  Password: textField('Password', 'lock', 'Masked text input'),
+  Textarea: textField('Textarea', 'align-left', 'Multi-line text input'),
+  Number: {
+    displayName: 'Number',
+    description: 'Numeric input',
+    category: 'Number',
+    icon: 'hash',
+    valueType: 'number',
+    defaultValue: '',
+    properties: {
+      ...commonFieldProperties,
+      min: { type: 'number', description: 'Minimum value' },
+      max: { type: 'number', description: 'Maximum value' },
+    },
+    validationRules: [...commonValidationRules, 'numberRange'],
+  },
+  Checkbox: {
+    displayName: 'Checkbox',
+    description: 'Yes/no toggle',
+    category: 'Choice',
+    icon: 'check-square',
+    valueType: 'boolean',
+    defaultValue: false,
+    properties: { ...commonFieldProperties },
+    validationRules: [...commonValidationRules],
+  },
+  Dropdown: {
+    displayName: 'Dropdown',
+    description: 'Single selection from a list of options',
+    category: 'Choice',
+    icon: 'chevron-down',
+    valueType: 'any',
+    defaultValue: '',
+    properties: { ...commonFieldProperties, ...optionProperties },
+    validationRules: [...commonValidationRules, 'optionAvailable'],
+  },
+  Radio: {
+    displayName: 'Radio',
+    description: 'Single selection shown as radio buttons',
+    category: 'Choice',
+    icon: 'circle-dot',
+    valueType: 'any',
+    defaultValue: '',
+    properties: {
+      ...commonFieldProperties,
+      ...optionProperties,
+      radioLayout: {
+        type: 'string',
+        enum: ['inline', 'vertical'],
+        default: 'vertical',
+        description: 'Show the options inline or stacked',
+      },
+    },
+    validationRules: [...commonValidationRules, 'optionAvailable'],
+  },
+  MultiSelect: {
+    displayName: 'Multi Select',
+    description: 'Multiple selections from a list of options',
+    category: 'Choice',
+    icon: 'list-checks',
+    valueType: 'array',
+    defaultValue: [],
+    properties: {
+      ...commonFieldProperties,
+      ...optionProperties,
+      maxSelections: { type: 'number', description: 'Maximum number of selected options' },
+    },
+    validationRules: [...commonValidationRules, 'maxSelections', 'optionAvailable'],
+  },
+  Date: {
+    displayName: 'Date',
+    description: 'Date picker',
+    category: 'Date',
+    icon: 'calendar',
+    valueType: 'date',
+    defaultValue: '',
+    properties: { ...commonFieldProperties, ...dateProperties },
+    validationRules: [...commonValidationRules, 'date'],
+  },
+  DateRange: {
+    displayName: 'Date Range',
+    description: 'Start and end date',
+    category: 'Date',
+    icon: 'calendar-range',
+    valueType: 'dateRange',
+    defaultValue: { startDate: '', endDate: '' },
+    properties: { ...commonFieldProperties, ...dateProperties },
+    validationRules: [...commonValidationRules, 'dateRange'],
+  },
+  File: {
+    displayName: 'File',
+    description: 'File upload',
+    category: 'File',
+    icon: 'paperclip',
+    valueType: 'file',
+    defaultValue: null,
+    properties: {
+      ...commonFieldProperties,
+      accept: { type: 'string', format: 'mime', description: 'Accepted file types (e.g., "image/*", ".pdf,.doc")' },
+      multiple: { type: 'boolean', default: false, description: 'Allow selecting several files' },
+      maxFileSize: { type: 'number', description: 'Maximum file size in bytes' },
+    },
+    validationRules: [...commonValidationRules, 'maxFileSize'],
+  },
+  List: {
+    displayName: 'List',
+    description: 'Repeating group of nested fields',
+    category: 'Collection',
+    icon: 'list',
+    valueType: 'object[]',
+    defaultValue: [],
+    properties: {
+      ...commonFieldProperties,
+      listSource: { type: 'string', format: 'source', description: 'Source (or source path) with the initial items' },
+      itemObject: { type: 'string', description: 'Identifier of the item type' },
+      fields: { type: 'array', description: 'Nested fields of each item' },
+      minItems: { type: 'number', description: 'Minimum number of items' },
+      maxItems: { type: 'number', description: 'Maximum number of items' },
+    },
+    validationRules: [...commonValidationRules, 'listItems'],
+  },
+}
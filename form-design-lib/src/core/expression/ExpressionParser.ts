@@ -0,0 +1,338 @@
+/**
+ * Expression Parser
+ *
+ * Tokenizes and parses the serializable expression syntax used in form configs
+ * (e.g., "object.country == 'US' && object.age >= 18") into an AST.
+ * Nothing is ever passed to eval or the Function constructor.
+ *
+ * Supported syntax:
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null, [arrays]
+ * - Paths: object.username, object.userExperience[0].employer, object.lineItems[*].amount
+ * - Operators: ! - (unary), * / %, + -, < <= > >=, == != === !==, in, &&, ||, ? :
+ * - Function calls: len(object.items), lower(object.email)
+ */
+
+export type ExpressionNode =
+  | { type: 'Literal'; value: any }
+  | { type: 'Path'; path: string }
+  | { type: 'Array'; elements: ExpressionNode[] }
+  | { type: 'Unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'Call'; name: string; args: ExpressionNode[] }
+
+/**
+ * Error thrown for invalid expression syntax or evaluation failures
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} at position ${position} in "${expression}"` : `${message} in "${expression}"`)
+    this.name = 'ExpressionError'
+  }
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+// Longest operators first so "===" wins over "=="
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':']
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.']
+
+// Property names that could reach the prototype chain are never allowed in paths
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor'])
+
+// Binary operator precedence (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, in: 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < expression.length) {
+    const char = expression[pos]
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    // Numbers (integers and decimals)
+    if (/[0-9]/.test(char)) {
+      const match = expression.slice(pos).match(/^[0-9]+(\.[0-9]+)?/)!
+      tokens.push({ type: 'number', value: match[0], position: pos })
+      pos += match[0].length
+      continue
+    }
+
+    // Strings with backslash escapes
+    if (char === "'" || char === '"') {
+      const start = pos
+      let value = ''
+      pos++
+      while (pos < expression.length && expression[pos] !== char) {
+        if (expression[pos] === '\\' && pos + 1 < expression.length) {
+          const next = expression[pos + 1]
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next
+          pos += 2
+        } else {
+          value += expression[pos]
+          pos++
+        }
+      }
+      if (pos >= expression.length) {
+        throw new ExpressionError('Unterminated string', expression, start)
+      }
+      pos++
+      tokens.push({ type: 'string', value, position: start })
+      continue
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = expression.slice(pos).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!
+      tokens.push({ type: 'identifier', value: match[0], position: pos })
+      pos += match[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => expression.startsWith(op, pos))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: pos })
+      pos += operator.length
+      continue
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: pos })
+      pos++
+      continue
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, expression, pos)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length })
+  return tokens
+}
+
+/**
+ * Recursive descent parser producing an ExpressionNode tree
+ */
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private expression: string) {
+    this.tokens = tokenize(expression)
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional()
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected token "${this.peek().value}"`)
+    }
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private isToken(value: string): boolean {
+    const token = this.peek()
+    return (token.type === 'operator' || token.type === 'punctuation') && token.value === value
+  }
+
+  private expect(value: string): void {
+    if (!this.isToken(value)) {
+      this.fail(`Expected "${value}" but found "${this.peek().value || 'end of expression'}"`)
+    }
+    this.index++
+  }
+
+  private fail(message: string): never {
+    throw new ExpressionError(message, this.expression, this.peek().position)
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseLogicalOr()
+    if (!this.isToken('?')) return test
+
+    this.index++
+    const consequent = this.parseConditional()
+    this.expect(':')
+    const alternate = this.parseConditional()
+    return { type: 'Conditional', test, consequent, alternate }
+  }
+
+  private parseLogicalOr(): ExpressionNode {
+    let left = this.parseLogicalAnd()
+    while (this.isToken('||')) {
+      this.index++
+      left = { type: 'Logical', operator: '||', left, right: this.parseLogicalAnd() }
+    }
+    return left
+  }
+
+  private parseLogicalAnd(): ExpressionNode {
+    let left = this.parseBinary(0)
+    while (this.isToken('&&')) {
+      this.index++
+      left = { type: 'Logical', operator: '&&', left, right: this.parseBinary(0) }
+    }
+    return left
+  }
+
+  private currentBinaryOperator(): string | undefined {
+    const token = this.peek()
+    if (token.type === 'operator' && token.value in BINARY_PRECEDENCE) return token.value
+    if (token.type === 'identifier' && token.value === 'in') return 'in'
+    return undefined
+  }
+
+  // Precedence climbing for binary operators
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary()
+    let operator = this.currentBinaryOperator()
+    while (operator && BINARY_PRECEDENCE[operator] > minPrecedence) {
+      this.index++
+      const right = this.parseBinary(BINARY_PRECEDENCE[operator])
+      left = { type: 'Binary', operator, left, right }
+      operator = this.currentBinaryOperator()
+    }
+    return left
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isToken('!') || this.isToken('-')) {
+      const operator = this.next().value as '!' | '-'
+      return { type: 'Unary', operator, argument: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek()
+
+    if (token.type === 'number') {
+      this.index++
+      return { type: 'Literal', value: parseFloat(token.value) }
+    }
+
+    if (token.type === 'string') {
+      this.index++
+      return { type: 'Literal', value: token.value }
+    }
+
+    if (this.isToken('(')) {
+      this.index++
+      const node = this.parseConditional()
+      this.expect(')')
+      return node
+    }
+
+    if (this.isToken('[')) {
+      this.index++
+      const elements: ExpressionNode[] = []
+      if (!this.isToken(']')) {
+        do {
+          elements.push(this.parseConditional())
+        } while (this.isToken(',') && this.next())
+      }
+      this.expect(']')
+      return { type: 'Array', elements }
+    }
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.index++
+        return { type: 'Literal', value: token.value === 'true' }
+      }
+      if (token.value === 'null') {
+        this.index++
+        return { type: 'Literal', value: null }
+      }
+
+      this.index++
+      if (this.isToken('(')) {
+        return this.parseCall(token.value)
+      }
+      return this.parsePath(token.value)
+    }
+
+    this.fail(`Unexpected token "${token.value || 'end of expression'}"`)
+  }
+
+  private parseCall(name: string): ExpressionNode {
+    this.expect('(')
+    const args: ExpressionNode[] = []
+    if (!this.isToken(')')) {
+      do {
+        args.push(this.parseConditional())
+      } while (this.isToken(',') && this.next())
+    }
+    this.expect(')')
+    return { type: 'Call', name, args }
+  }
+
+  private parsePath(root: string): ExpressionNode {
+    this.checkSegment(root)
+    let path = root
+
+    while (this.isToken('.') || this.isToken('[')) {
+      if (this.isToken('.')) {
+        this.index++
+        const segment = this.next()
+        if (segment.type !== 'identifier') {
+          this.fail('Expected property name after "."')
+        }
+        this.checkSegment(segment.value)
+        path += `.${segment.value}`
+      } else {
+        this.index++
+        const indexToken = this.next()
+        if (indexToken.type === 'number' && /^[0-9]+$/.test(indexToken.value)) {
+          path += `[${indexToken.value}]`
+        } else if (indexToken.type === 'operator' && indexToken.value === '*') {
+          path += '[*]'
+        } else {
+          this.fail('Only numeric indices and [*] are allowed in paths')
+        }
+        this.expect(']')
+      }
+    }
+
+    return { type: 'Path', path }
+  }
+
+  private checkSegment(segment: string): void {
+    if (FORBIDDEN_SEGMENTS.has(segment)) {
+      this.fail(`Property "${segment}" is not allowed`)
+    }
+  }
+}
+
+/**
+ * Parse an expression string into an AST
+ * @param expression - The expression source
+ * @returns The root expression node
+ * @throws ExpressionError if the expression is not valid
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  return new Parser(expression).parse()
+}
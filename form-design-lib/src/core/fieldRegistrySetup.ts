@@ -1,6 +1,7 @@
 import React from 'react'
 import type { FieldRegistry, BaseFieldProps } from './FieldRegistry'
 import { defaultFieldRegistry } from './FieldRegistry'
+import { builtInFieldMeta } from './builtInFieldMeta'
 
 // Import all field components
 import { TextField } from '../components/fields/TextField'
@@ -30,22 +31,22 @@ function createFieldAdapter<T extends BaseFieldProps>(
 }
 
 /**
- * Initialize the default field registry with all built-in field components
+ * Initialize the default field registry with all built-in field components and their metadata
  * @param registry - The field registry instance to populate (defaults to defaultFieldRegistry)
  */
 export function initializeFieldRegistry(registry?: FieldRegistry): FieldRegistry {
   const targetRegistry = registry || defaultFieldRegistry
 
   // Register Text, Email, Password - all use TextField
-  targetRegistry.register('Text', createFieldAdapter(TextField))
-  targetRegistry.register('Email', createFieldAdapter(TextField))
-  targetRegistry.register('Password', createFieldAdapter(TextField))
+  targetRegistry.register('Text', createFieldAdapter(TextField), builtInFieldMeta.Text)
+  targetRegistry.register('Email', createFieldAdapter(TextField), builtInFieldMeta.Email)
+  targetRegistry.register('Password', createFieldAdapter(TextField), builtInFieldMeta.Password)
 
   // Register Date
-  targetRegistry.register('Date', createFieldAdapter(DateField))
+  targetRegistry.register('Date', createFieldAdapter(DateField), builtInFieldMeta.Date)
 
   // Register Checkbox
-  targetRegistry.register('Checkbox', createFieldAdapter(CheckboxField))
+  targetRegistry.register('Checkbox', createFieldAdapter(CheckboxField), builtInFieldMeta.Checkbox)
 
   // Register Dropdown - needs sourceData and isLoadingSource
   targetRegistry.register(
@@ -54,14 +55,15 @@ export function initializeFieldRegistry(registry?: FieldRegistry): FieldRegistry
       ...props,
       sourceData: props.sourceData || {},
       isLoadingSource: props.isLoadingSource || false,
-    } as any))
+    } as any)),
+    builtInFieldMeta.Dropdown
   )
 
   // Register Number
-  targetRegistry.register('Number', createFieldAdapter(NumberField))
+  targetRegistry.register('Number', createFieldAdapter(NumberField), builtInFieldMeta.Number)
 
   // Register Textarea
-  targetRegistry.register('Textarea', createFieldAdapter(TextareaField))
+  targetRegistry.register('Textarea', createFieldAdapter(TextareaField), builtInFieldMeta.Textarea)
 
   // Register Radio - needs sourceData and isLoadingSource
   targetRegistry.register(
@@ -70,11 +72,12 @@ export function initializeFieldRegistry(registry?: FieldRegistry): FieldRegistry
       ...props,
       sourceData: props.sourceData || {},
       isLoadingSource: props.isLoadingSource || false,
-    } as any))
+    } as any)),
+    builtInFieldMeta.Radio
   )
 
   // Register File
-  targetRegistry.register('File', createFieldAdapter(FileField))
+  targetRegistry.register('File', createFieldAdapter(FileField), builtInFieldMeta.File)
 
   // Register MultiSelect - needs sourceData and isLoadingSource
   targetRegistry.register(
@@ -83,11 +86,12 @@ export function initializeFieldRegistry(registry?: FieldRegistry): FieldRegistry
       ...props,
       sourceData: props.sourceData || {},
       isLoadingSource: props.isLoadingSource || false,
-    } as any))
+    } as any)),
+    builtInFieldMeta.MultiSelect
   )
 
   // Register DateRange
-  targetRegistry.register('DateRange', createFieldAdapter(DateRangeField))
+  targetRegistry.register('DateRange', createFieldAdapter(DateRangeField), builtInFieldMeta.DateRange)
 
   // Register List - needs additional props
   targetRegistry.register(
@@ -115,7 +119,8 @@ export function initializeFieldRegistry(registry?: FieldRegistry): FieldRegistry
         validatingFields: props.validatingFields || new Set(),
         loadingStates: props.loadingStates || {},
       } as any
-    })
+    }),
+    builtInFieldMeta.List
   )
 
   return targetRegistry
@@ -0,0 +1,43 @@
+import type { OutputTransform } from './PayloadSerializer'
+
+/**
+ * Built-in output transforms
+ * Referenced by name from `field.output` (e.g., output: 'isoDate').
+ */
+
+/**
+ * Parse a Date, timestamp or date string
+ * @throws Error if the value is not a valid date
+ */
+function toDate(value: any): Date {
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`)
+  }
+  return date
+}
+
+/**
+ * Describe a File without its contents
+ */
+function toFileMetadata(file: any) {
+  return {
+    name: file?.name,
+    size: file?.size,
+    type: file?.type,
+    lastModified: file?.lastModified,
+  }
+}
+
+export const builtInOutputTransforms: Record<string, OutputTransform> = {
+  // Date as an ISO 8601 timestamp ("2024-05-01T00:00:00.000Z")
+  isoDate: (value) => toDate(value).toISOString(),
+  // Date as milliseconds since the Unix epoch
+  epoch: (value) => toDate(value).getTime(),
+  // Number (or anything else) as a string
+  string: (value) => String(value),
+  // Numeric string as a number
+  number: (value) => Number(value),
+  // File or File[] as { name, size, type, lastModified }
+  fileMetadata: (value) => (Array.isArray(value) ? value.map(toFileMetadata) : toFileMetadata(value)),
+}
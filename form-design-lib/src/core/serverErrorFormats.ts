@@ -0,0 +1,106 @@
+import type { ServerErrorFormat, ServerErrorResult } from './ServerErrorMapper'
+
+/**
+ * Built-in server error formats
+ * Registered in this order on the default server error mapper; the first match wins.
+ */
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Get the first message of a string or an array of strings
+ */
+function firstMessage(messages: any): string | undefined {
+  const message = Array.isArray(messages) ? messages[0] : messages
+  return typeof message === 'string' && message ? message : undefined
+}
+
+/**
+ * Collect a `{ path: message | message[] }` map
+ */
+function fromErrorMap(errors: Record<string, any>): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  Object.entries(errors).forEach(([path, messages]) => {
+    const message = firstMessage(messages)
+    if (message) fieldErrors[path] = message
+  })
+  return fieldErrors
+}
+
+/**
+ * Collect an array of `{ path, message }` entries
+ * Also accepts the common aliases `field`/`name`/`pointer` and `reason`/`detail`.
+ */
+function fromErrorList(errors: any[]): ServerErrorResult {
+  const fieldErrors: Record<string, string> = {}
+  const formMessages: string[] = []
+
+  errors.forEach((entry) => {
+    if (!isPlainObject(entry)) return
+    const path = entry.path ?? entry.field ?? entry.name ?? entry.pointer
+    const message = firstMessage(entry.message ?? entry.reason ?? entry.detail)
+    if (!message) return
+    if (typeof path === 'string' && path) {
+      if (!fieldErrors[path]) fieldErrors[path] = message
+    } else {
+      formMessages.push(message)
+    }
+  })
+
+  return { fieldErrors, formError: formMessages.length > 0 ? formMessages.join(' ') : undefined }
+}
+
+const isErrorList = (value: any): value is any[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+
+/**
+ * RFC 7807 problem details
+ * `{ type, title, status, detail, errors | invalid-params }` - the title/detail becomes the banner.
+ */
+export const problemDetailsFormat: ServerErrorFormat = {
+  name: 'problemDetails',
+  matches: (payload) =>
+    isPlainObject(payload) && typeof payload.title === 'string' && ('type' in payload || 'status' in payload),
+  parse: (payload) => {
+    const formError = payload.detail || payload.title
+    const invalidParams = payload['invalid-params'] ?? payload.invalidParams
+    if (isErrorList(invalidParams)) {
+      return { fieldErrors: fromErrorList(invalidParams).fieldErrors, formError }
+    }
+    if (isErrorList(payload.errors)) {
+      return { fieldErrors: fromErrorList(payload.errors).fieldErrors, formError }
+    }
+    return { fieldErrors: isPlainObject(payload.errors) ? fromErrorMap(payload.errors) : {}, formError }
+  },
+}
+
+/**
+ * Array of `{ path, message }` entries, either the payload itself or its `errors` property
+ */
+export const errorListFormat: ServerErrorFormat = {
+  name: 'errorList',
+  matches: (payload) => isErrorList(payload) || (isPlainObject(payload) && isErrorList(payload.errors)),
+  parse: (payload) => {
+    const result = fromErrorList(Array.isArray(payload) ? payload : payload.errors)
+    return { ...result, formError: result.formError || firstMessage(payload.message) }
+  },
+}
+
+/**
+ * Flat map `{ errors: { path: message | message[] }, message? }`
+ */
+export const errorMapFormat: ServerErrorFormat = {
+  name: 'errorMap',
+  matches: (payload) => isPlainObject(payload) && isPlainObject(payload.errors),
+  parse: (payload) => ({
+    fieldErrors: fromErrorMap(payload.errors),
+    formError: firstMessage(payload.message),
+  }),
+}
+
+export const builtInServerErrorFormats: ServerErrorFormat[] = [
+  problemDetailsFormat,
+  errorListFormat,
+  errorMapFormat,
+]
@@ -0,0 +1,128 @@
+import type { SourceAdapter } from './SourceAdapterRegistry'
+import { buildSourceRequest, resolveTemplate } from '../utils/sourceRequest'
+import { getNestedValue } from '../utils/nestedValue'
+import { parseQueryString } from '../utils/formContext'
+import { defaultExpressionEvaluator } from './ExpressionEvaluator'
+
+/**
+ * Built-in source adapters
+ * Registered by source type on the default source adapter registry.
+ */
+
+const getStorageKey = (source: { sourceName: string; storageKey?: string }) => source.storageKey || source.sourceName
+
+/**
+ * Fetched through the ApiProvider (endpoint, method, query, body and headers)
+ */
+export const apiSourceAdapter: SourceAdapter = {
+  resolve: (source, store) => {
+    const request = buildSourceRequest(source, store)
+    return { ready: request.ready, signature: request.signature, endpoint: request.url, params: request.params }
+  },
+  fetch: (source, { apiProvider, store, signal }) => {
+    const request = buildSourceRequest(source, store)
+    return apiProvider.call(request.url, request.method, { ...request.options, signal })
+  },
+}
+
+/**
+ * Inline data from the config (`data`); "{param}" placeholders are resolved from parameters
+ */
+export const staticSourceAdapter: SourceAdapter = {
+  resolve: (source, store) => {
+    const { ready, params } = buildSourceRequest(source, store)
+    return { ready, signature: JSON.stringify({ data: source.data ?? null, params }), endpoint: 'static', params }
+  },
+  fetch: (source, { store }) => resolveTemplate(source.data, buildSourceRequest(source, store).params),
+}
+
+/**
+ * The URL query parameters of the page, reloaded on history navigation
+ */
+export const queryStringSourceAdapter: SourceAdapter = {
+  resolve: () => {
+    const search = typeof window !== 'undefined' ? window.location.search : ''
+    return { ready: true, signature: search, endpoint: 'location.search', params: {} }
+  },
+  fetch: () => parseQueryString(typeof window !== 'undefined' ? window.location.search : ''),
+  subscribe: (_source, onChange) => {
+    if (typeof window === 'undefined') return () => {}
+    window.addEventListener('popstate', onChange)
+    return () => window.removeEventListener('popstate', onChange)
+  },
+}
+
+/**
+ * A JSON value stored in localStorage under `storageKey` (default: the source name)
+ * `data` is used when nothing is stored. Changes made in other tabs are picked up.
+ */
+export const localStorageSourceAdapter: SourceAdapter = {
+  resolve: (source) => ({
+    ready: true,
+    signature: getStorageKey(source),
+    endpoint: `localStorage:${getStorageKey(source)}`,
+    params: {},
+  }),
+  fetch: (source) => {
+    const raw = localStorage.getItem(getStorageKey(source))
+    if (raw === null) return source.data ?? null
+    try {
+      return JSON.parse(raw)
+    } catch {
+      // Plain strings are stored without JSON encoding
+      return raw
+    }
+  },
+  subscribe: (source, onChange) => {
+    if (typeof window === 'undefined') return () => {}
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === getStorageKey(source)) onChange()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  },
+}
+
+/**
+ * Derived from other sources with an `expression` (e.g., "countryList"),
+ * evaluated again whenever a value the expression reads changes
+ */
+const getExpressionDependencies = (expression?: string): string[] => {
+  try {
+    return expression ? defaultExpressionEvaluator.getDependencies(expression) : []
+  } catch {
+    // Invalid expressions are reported by fetch, through the source error
+    return []
+  }
+}
+
+export const computedSourceAdapter: SourceAdapter = {
+  getDependencies: (source) => [
+    ...Object.values(source.parameters || {}),
+    ...getExpressionDependencies(source.expression),
+  ],
+  resolve: (source, store) => {
+    // "[*]" wildcards are cut off: "object.lineItems[*].amount" changes with any item of "object.lineItems"
+    const dependencies = getExpressionDependencies(source.expression).map((path) => path.split('[*]')[0])
+    return {
+      ready: true,
+      signature: JSON.stringify(dependencies.map((path) => getNestedValue(store, path))),
+      endpoint: source.expression || '',
+      params: {},
+    }
+  },
+  fetch: (source, { store }) => {
+    if (!source.expression) {
+      throw new Error(`Computed source "${source.sourceName}" has no expression`)
+    }
+    return defaultExpressionEvaluator.evaluate(source.expression, store)
+  },
+}
+
+export const builtInSourceAdapters: Record<string, SourceAdapter> = {
+  API: apiSourceAdapter,
+  Static: staticSourceAdapter,
+  QueryString: queryStringSourceAdapter,
+  LocalStorage: localStorageSourceAdapter,
+  Computed: computedSourceAdapter,
+}
@@ -0,0 +1,88 @@
+import type { SourceTransform } from './SourceTransformer'
+import { ExpressionEvaluator, compareValues } from './ExpressionEvaluator'
+
+/**
+ * Built-in source transforms
+ * Referenced from `source.transform` by name, with their options (e.g., { name: 'sortBy', key: 'label' }).
+ * Expressions in the options read the keys of each item directly, or the item and its position as `item` and `index`.
+ */
+
+/**
+ * Evaluate an expression against an object: its keys are readable as paths, and `locals` are available by name
+ * @param evaluator - The expression evaluator
+ * @param expression - The expression source
+ * @param value - The object the expression reads (arrays and primitives are only readable through `locals`)
+ * @param locals - Local variables (e.g., { item, index })
+ * @returns The expression result
+ */
+export function evaluateAgainst(
+  evaluator: ExpressionEvaluator,
+  expression: string,
+  value: any,
+  locals: Record<string, any>
+): any {
+  const store = value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+  return evaluator.evaluate(expression, store, locals)
+}
+
+/**
+ * Ensure a transform receives an array
+ * @throws Error naming the source and transform otherwise
+ */
+function toArray(data: any, transformName: string, sourceName: string): any[] {
+  if (!Array.isArray(data)) {
+    throw new Error(
+      `Source transform "${transformName}" of "${sourceName}" expects an array, got ${data === null ? 'null' : typeof data}`
+    )
+  }
+  return data
+}
+
+/**
+ * Rename the keys of an object, keeping the other keys
+ */
+function renameKeys(value: any, fields: Record<string, string>): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+  const renamed: Record<string, any> = {}
+  Object.entries(value).forEach(([key, item]) => {
+    renamed[fields[key] ?? key] = item
+  })
+  return renamed
+}
+
+export const builtInSourceTransforms: Record<string, SourceTransform> = {
+  // Map every item to an object of expressions ({ fields: { value: 'id', label: "name + ' (' + code + ')'" } })
+  // or to the result of one expression ({ expression: 'id' })
+  map: (data, options, { source, evaluator }) =>
+    toArray(data, 'map', source.sourceName).map((item, index) => {
+      const locals = { item, index }
+      if (options.expression) {
+        return evaluateAgainst(evaluator, options.expression, item, locals)
+      }
+      return Object.fromEntries(
+        Object.entries<string>(options.fields || {}).map(([key, expression]) => [
+          key,
+          evaluateAgainst(evaluator, expression, item, locals),
+        ])
+      )
+    }),
+  // Keep the items for which the expression is truthy ({ expression: 'active && stock > 0' })
+  filter: (data, options, { source, evaluator }) =>
+    toArray(data, 'filter', source.sourceName).filter(
+      (item, index) => !!evaluateAgainst(evaluator, options.expression, item, { item, index })
+    ),
+  // Sort the items by a key ({ key: 'label', order: 'desc' }); the source data is not modified
+  sortBy: (data, options, { source, evaluator }) => {
+    const direction = options.order === 'desc' ? -1 : 1
+    const keyed = toArray(data, 'sortBy', source.sourceName).map((item, index) => ({
+      item,
+      key: evaluateAgainst(evaluator, options.key, item, { item, index }),
+    }))
+    return keyed.sort((a, b) => compareValues(a.key, b.key) * direction).map(({ item }) => item)
+  },
+  // Rename keys of the data, or of every item ({ fields: { iso: 'value', name: 'label' } })
+  rename: (data, options) => {
+    const fields: Record<string, string> = options.fields || {}
+    return Array.isArray(data) ? data.map((item) => renameKeys(item, fields)) : renameKeys(data, fields)
+  },
+}
@@ -0,0 +1,300 @@
+import type { ValidationRule } from './ValidationEngine'
+import { defaultExpressionEvaluator } from './ExpressionEvaluator'
+import { getInvalidOptionMessage, isOptionAvailable } from '../utils/options'
+
+/**
+ * Built-in validation rules
+ * Registered in this order on the default validation engine; the first error wins.
+ */
+
+/**
+ * Resolve a minDate/maxDate setting ('today' or an ISO date string) to a Date
+ */
+function resolveDateBound(bound: string): Date {
+  return bound === 'today' ? new Date() : new Date(bound)
+}
+
+export const requiredRule: ValidationRule = {
+  name: 'required',
+  validatesEmpty: true,
+  appliesTo: (field) => !!field.required,
+  validate: (value, field) => {
+    if (value === undefined || value === null || value === '') {
+      return field.errorMessages?.required || `${field.fieldName} is required`
+    }
+    return undefined
+  },
+}
+
+export const minLengthRule: ValidationRule = {
+  name: 'minLength',
+  appliesTo: (field) => !!field.minLength,
+  validate: (value, field) => {
+    const minLength = field.minLength!
+    if (String(value).length < minLength) {
+      return (
+        field.errorMessages?.minLength ||
+        `Must be at least ${minLength} ${minLength === 1 ? 'character' : 'characters'}`
+      )
+    }
+    return undefined
+  },
+}
+
+export const maxLengthRule: ValidationRule = {
+  name: 'maxLength',
+  appliesTo: (field) => !!field.maxLength,
+  validate: (value, field) => {
+    const maxLength = field.maxLength!
+    if (String(value).length > maxLength) {
+      return (
+        field.errorMessages?.maxLength ||
+        `Must be no more than ${maxLength} ${maxLength === 1 ? 'character' : 'characters'}`
+      )
+    }
+    return undefined
+  },
+}
+
+export const patternRule: ValidationRule = {
+  name: 'pattern',
+  appliesTo: (field) => !!field.validationPattern,
+  validate: (value, field) => {
+    const regex = new RegExp(field.validationPattern!)
+    if (!regex.test(String(value))) {
+      return field.errorMessages?.pattern || 'Invalid format'
+    }
+    return undefined
+  },
+}
+
+export const dateRule: ValidationRule = {
+  name: 'date',
+  appliesTo: (field) => field.fieldType === 'Date',
+  validate: (value, field) => {
+    const dateValue = new Date(value)
+    if (isNaN(dateValue.getTime())) {
+      return 'Invalid date'
+    }
+
+    if (field.minDate) {
+      const minDate = resolveDateBound(field.minDate)
+      minDate.setHours(0, 0, 0, 0)
+      const dateValueNormalized = new Date(dateValue)
+      dateValueNormalized.setHours(0, 0, 0, 0)
+      if (dateValueNormalized < minDate) {
+        return (
+          field.errorMessages?.minDate ||
+          `Date must be ${field.minDate === 'today' ? 'today or ' : ''}after ${field.minDate === 'today' ? '' : minDate.toLocaleDateString()}`
+        )
+      }
+    }
+
+    if (field.maxDate) {
+      const maxDate = resolveDateBound(field.maxDate)
+      maxDate.setHours(23, 59, 59, 999)
+      if (dateValue > maxDate) {
+        return (
+          field.errorMessages?.maxDate ||
+          `Date must be ${field.maxDate === 'today' ? 'today or ' : ''}before ${field.maxDate === 'today' ? '' : maxDate.toLocaleDateString()}`
+        )
+      }
+    }
+
+    return undefined
+  },
+}
+
+export const dateRangeRule: ValidationRule = {
+  name: 'dateRange',
+  appliesTo: (field) => field.fieldType === 'DateRange',
+  validate: (value, field) => {
+    const range = value as { startDate?: string; endDate?: string }
+
+    if (field.required && (!range.startDate || !range.endDate)) {
+      return field.errorMessages?.required || `${field.fieldName} is required`
+    }
+
+    if (!range.startDate || !range.endDate) {
+      return undefined
+    }
+
+    const startDate = new Date(range.startDate)
+    const endDate = new Date(range.endDate)
+
+    if (isNaN(startDate.getTime())) {
+      return 'Invalid start date'
+    }
+
+    if (isNaN(endDate.getTime())) {
+      return 'Invalid end date'
+    }
+
+    if (endDate < startDate) {
+      return 'End date must be after start date'
+    }
+
+    // Validate against minDate/maxDate if specified
+    if (field.minDate) {
+      const minDate = resolveDateBound(field.minDate)
+      minDate.setHours(0, 0, 0, 0)
+      if (startDate < minDate) {
+        return (
+          field.errorMessages?.minDate ||
+          `Start date must be ${field.minDate === 'today' ? 'today or ' : ''}after ${field.minDate === 'today' ? '' : minDate.toLocaleDateString()}`
+        )
+      }
+    }
+
+    if (field.maxDate) {
+      const maxDate = resolveDateBound(field.maxDate)
+      maxDate.setHours(23, 59, 59, 999)
+      if (endDate > maxDate) {
+        return (
+          field.errorMessages?.maxDate ||
+          `End date must be ${field.maxDate === 'today' ? 'today or ' : ''}before ${field.maxDate === 'today' ? '' : maxDate.toLocaleDateString()}`
+        )
+      }
+    }
+
+    return undefined
+  },
+}
+
+export const numberRangeRule: ValidationRule = {
+  name: 'numberRange',
+  appliesTo: (field) => field.fieldType === 'Number',
+  validate: (value, field) => {
+    const numValue = typeof value === 'number' ? value : parseFloat(String(value))
+
+    if (isNaN(numValue)) {
+      return field.errorMessages?.pattern || 'Please enter a valid number'
+    }
+
+    if (field.min !== undefined && numValue < field.min) {
+      return field.errorMessages?.min || `Value must be at least ${field.min}`
+    }
+
+    if (field.max !== undefined && numValue > field.max) {
+      return field.errorMessages?.max || `Value must be no more than ${field.max}`
+    }
+
+    return undefined
+  },
+}
+
+export const maxFileSizeRule: ValidationRule = {
+  name: 'maxFileSize',
+  appliesTo: (field) => field.fieldType === 'File' && !!field.maxFileSize,
+  validate: (value, field) => {
+    const maxFileSize = field.maxFileSize!
+    const files = field.multiple && Array.isArray(value) ? value : [value]
+    for (const file of files) {
+      if (file instanceof File && file.size > maxFileSize) {
+        const maxSizeMB = (maxFileSize / (1024 * 1024)).toFixed(2)
+        return field.errorMessages?.custom || `File size must be less than ${maxSizeMB} MB`
+      }
+    }
+    return undefined
+  },
+}
+
+export const maxSelectionsRule: ValidationRule = {
+  name: 'maxSelections',
+  appliesTo: (field) => field.fieldType === 'MultiSelect',
+  validate: (value, field) => {
+    const selections = Array.isArray(value) ? value : [value]
+
+    if (field.required && selections.length === 0) {
+      return field.errorMessages?.required || `${field.fieldName} is required`
+    }
+
+    if (field.maxSelections && selections.length > field.maxSelections) {
+      return field.errorMessages?.custom || `Maximum ${field.maxSelections} selections allowed`
+    }
+
+    return undefined
+  },
+}
+
+export const optionAvailableRule: ValidationRule = {
+  name: 'optionAvailable',
+  appliesTo: (field) =>
+    !!field.optionsSource && ['Dropdown', 'Radio', 'MultiSelect'].includes(field.fieldType),
+  validate: (value, field, store) => {
+    if (!isOptionAvailable(field, value, store)) {
+      return getInvalidOptionMessage(field)
+    }
+    return undefined
+  },
+}
+
+export const listItemsRule: ValidationRule = {
+  name: 'listItems',
+  validatesEmpty: true,
+  appliesTo: (field) =>
+    field.fieldType === 'List' && (field.minItems !== undefined || field.maxItems !== undefined),
+  validate: (value, field) => {
+    const count = Array.isArray(value) ? value.length : 0
+
+    if (field.minItems !== undefined && count < field.minItems) {
+      return (
+        field.errorMessages?.minItems ||
+        `Add at least ${field.minItems} ${field.minItems === 1 ? 'item' : 'items'}`
+      )
+    }
+
+    if (field.maxItems !== undefined && count > field.maxItems) {
+      return (
+        field.errorMessages?.maxItems ||
+        `No more than ${field.maxItems} ${field.maxItems === 1 ? 'item' : 'items'} allowed`
+      )
+    }
+
+    return undefined
+  },
+}
+
+export const expressionRule: ValidationRule = {
+  name: 'expression',
+  appliesTo: (field) => !!field.validations && field.validations.length > 0,
+  validate: (value, field, store) => {
+    for (const validation of field.validations!) {
+      if (!defaultExpressionEvaluator.evaluate(validation.expression, store, { value })) {
+        return validation.message
+      }
+    }
+    return undefined
+  },
+}
+
+export const customValidatorRule: ValidationRule = {
+  name: 'customValidator',
+  appliesTo: (field) => !!field.customValidator,
+  validate: async (value, field, store) => {
+    const customError = await field.customValidator!(value, field, store)
+    if (customError) {
+      return field.errorMessages?.custom || customError
+    }
+    return undefined
+  },
+}
+
+/**
+ * All built-in rules, in evaluation order
+ */
+export const builtInValidationRules: ValidationRule[] = [
+  requiredRule,
+  minLengthRule,
+  maxLengthRule,
+  patternRule,
+  dateRule,
+  dateRangeRule,
+  numberRangeRule,
+  maxFileSizeRule,
+  maxSelectionsRule,
+  optionAvailableRule,
+  listItemsRule,
+  expressionRule,
+  customValidatorRule,
+]
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { useDynamicForm } from '../useDynamicForm'
+import { FormConfig, ApiProvider, FormField as FormFieldType } from '../../types'
+
+describe('useDynamicForm', () => {
+  let mockApiProvider: ApiProvider
+
+  const config: FormConfig = {
+    formName: 'Profile',
+    gridSize: 12,
+    layout: 'wizard',
+    sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/user' }],
+    fields: [
+      { fieldName: 'Name', fieldType: 'Text', binding: 'object.name', required: true, section: 'Account' },
+      { fieldName: 'Email', fieldType: 'Text', binding: 'object.email', required: true, section: 'Contact' },
+      {
+        fieldName: 'Company',
+        fieldType: 'Text',
+        binding: 'object.company',
+        section: 'Contact',
+        visibleWhen: 'object.isEmployed == true',
+      },
+    ],
+  }
+
+  beforeEach(() => {
+    mockApiProvider = {
+      call: vi.fn(async () => ({ name: 'Ada' })),
+    }
+  })
+
+  it('should group visible fields into sections and steps', async () => {
+    const { result } = renderHook(() => useDynamicForm(config, mockApiProvider))
+
+    await waitFor(() => expect(result.current.store.object).toEqual({ name: 'Ada' }))
+
+    expect(result.current.visibleFields.map((field) => field.binding)).toEqual(['object.name', 'object.email'])
+    expect(result.current.stepNames).toEqual(['Account', 'Contact'])
+    expect(result.current.activeStep).toBe(0)
+    expect(result.current.isLastStep).toBe(false)
+  })
+
+  it('should provide field props wired to the store', async () => {
+    const { result } = renderHook(() => useDynamicForm(config, mockApiProvider))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    const nameProps = result.current.getFieldProps(config.fields[0])
+    expect(nameProps.value).toBe('Ada')
+
+    act(() => {
+      nameProps.onChange('Grace')
+    })
+
+    expect(result.current.store.object.name).toBe('Grace')
+    expect(result.current.isDirty).toBe(true)
+    expect(result.current.getFieldProps(config.fields[0]).isDirty).toBe(true)
+  })
+
+  it('should track dirty state against the loaded data, including restored changes', async () => {
+    const profileConfig: FormConfig = { ...config, layout: undefined, fields: [config.fields[0]] }
+    localStorage.setItem('form-profile', JSON.stringify({ object: { name: 'Grace' } }))
+    const { result } = renderHook(() => useDynamicForm(profileConfig, mockApiProvider, { persistState: true }))
+
+    await waitFor(() => expect(result.current.store.object).toEqual({ name: 'Grace' }))
+    expect(result.current.dirtyFields).toEqual(['object.name'])
+
+    // The submitted values are the new baseline
+    await act(async () => {
+      await result.current.actions.submit()
+    })
+    expect(result.current.isDirty).toBe(false)
+
+    act(() => {
+      result.current.getFieldProps(profileConfig.fields[0]).onChange('Ada')
+    })
+    expect(result.current.isDirty).toBe(true)
+
+    act(() => {
+      result.current.actions.reset()
+    })
+    expect(result.current.store.object).toEqual({ name: 'Grace' })
+    expect(result.current.isDirty).toBe(false)
+    localStorage.clear()
+  })
+
+  it('should call the latest onDirtyChange when the dirty fields change, not on mount', async () => {
+    const first = vi.fn()
+    const latest = vi.fn()
+    const { result, rerender } = renderHook(
+      ({ onDirtyChange }) => useDynamicForm(config, mockApiProvider, { onDirtyChange }),
+      { initialProps: { onDirtyChange: first } }
+    )
+    await waitFor(() => expect(result.current.store.object).toEqual({ name: 'Ada' }))
+    rerender({ onDirtyChange: latest })
+
+    act(() => {
+      result.current.getFieldProps(config.fields[0]).onChange('Grace')
+    })
+    act(() => {
+      result.current.getFieldProps(config.fields[0]).onChange('Grace Hopper')
+    })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(latest).toHaveBeenCalledTimes(1)
+    expect(latest).toHaveBeenCalledWith(true, ['object.name'])
+  })
+
+  it('should only advance to the next step when the current step is valid', async () => {
+    const onStepChange = vi.fn()
+    const { result } = renderHook(() => useDynamicForm(config, mockApiProvider, { onStepChange }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await result.current.nextStep()
+    })
+    expect(result.current.activeStep).toBe(1)
+    expect(onStepChange).toHaveBeenCalledWith(1, 'Contact')
+
+    let submitted: boolean | undefined
+    await act(async () => {
+      submitted = await result.current.actions.submit()
+    })
+    expect(submitted).toBe(false)
+    expect(result.current.errors).toEqual({ 'object.email': 'Email is required' })
+  })
+
+  it('should submit the serialized payload through onSubmit', async () => {
+    const onSubmit = vi.fn()
+    const { result } = renderHook(() => useDynamicForm(config, mockApiProvider, { onSubmit }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    act(() => {
+      result.current.actions.setValue('object.email', 'ada@example.com')
+    })
+
+    let submitted: boolean | undefined
+    await act(async () => {
+      submitted = await result.current.actions.submit()
+    })
+
+    expect(submitted).toBe(true)
+    expect(onSubmit).toHaveBeenCalledWith({ name: 'Ada', email: 'ada@example.com' })
+    expect(result.current.submitStatus).toBe('success')
+  })
+
+  it('should load, read and submit the configured data source', async () => {
+    const customerConfig: FormConfig = {
+      formName: 'Customer',
+      gridSize: 12,
+      dataSource: 'customer',
+      sources: [
+        { sourceName: 'countryList', sourceType: 'Static', data: [{ label: 'Germany', value: 'DE' }] },
+        { sourceName: 'customer', sourceType: 'API', endpoint: '/api/customer' },
+      ],
+      fields: [
+        { fieldName: 'Name', fieldType: 'Text', binding: 'customer.name', required: true },
+        { fieldName: 'Country', fieldType: 'Dropdown', binding: 'customer.country', optionsSource: 'countryList' },
+      ],
+    }
+    const onSubmit = vi.fn()
+    const { result } = renderHook(() => useDynamicForm(customerConfig, mockApiProvider, { onSubmit }))
+    await waitFor(() => expect(result.current.actions.getValues()).toEqual({ name: 'Ada' }))
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.store.countryList).toEqual([{ label: 'Germany', value: 'DE' }])
+
+    act(() => {
+      result.current.actions.setValue('customer.country', 'DE')
+    })
+    await act(async () => {
+      await result.current.actions.submit()
+    })
+
+    expect(onSubmit).toHaveBeenCalledWith({ name: 'Ada', country: 'DE' })
+  })
+
+  it('should keep a List empty after its last item is removed', async () => {
+    const listField: FormFieldType = {
+      fieldName: 'Experience',
+      fieldType: 'List',
+      binding: 'object.userExperience',
+      listSource: 'experienceList',
+      itemObject: 'experienceItem',
+      fields: [{ fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' }],
+    }
+    const listConfig: FormConfig = {
+      formName: 'Experience',
+      gridSize: 12,
+      sources: [
+        { sourceName: 'object', sourceType: 'API', endpoint: '/api/user' },
+        { sourceName: 'experienceList', sourceType: 'Static', data: [{ employer: 'Acme' }] },
+      ],
+      fields: [listField],
+    }
+    const onSubmit = vi.fn()
+    const { result } = renderHook(() => useDynamicForm(listConfig, mockApiProvider, { onSubmit }))
+    await waitFor(() => expect(result.current.getFieldProps(listField).value).toHaveLength(1))
+
+    act(() => {
+      result.current.getFieldProps(listField).onChange([])
+    })
+    expect(result.current.getFieldProps(listField).value).toEqual([])
+
+    await act(async () => {
+      await result.current.actions.submit()
+    })
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ userExperience: [] }))
+  })
+
+  it('should keep touched and dirty state attached to List items when they are moved', async () => {
+    const listField: FormFieldType = {
+      fieldName: 'Experience',
+      fieldType: 'List',
+      binding: 'object.userExperience',
+      listSource: 'experienceList',
+      itemObject: 'experienceItem',
+      fields: [{ fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' }],
+    }
+    const listConfig: FormConfig = {
+      formName: 'Experience',
+      gridSize: 12,
+      sources: [
+        { sourceName: 'object', sourceType: 'API', endpoint: '/api/user' },
+        { sourceName: 'experienceList', sourceType: 'Static', data: [{ employer: 'Acme' }, { employer: 'Globex' }] },
+      ],
+      fields: [listField],
+    }
+    const { result } = renderHook(() => useDynamicForm(listConfig, mockApiProvider))
+    await waitFor(() => expect(result.current.getFieldProps(listField).value).toHaveLength(2))
+
+    act(() => {
+      result.current.getFieldProps(listField).onFieldBlur!('object.userExperience[0].employer', 'Acme')
+    })
+    act(() => {
+      const props = result.current.getFieldProps(listField)
+      props.onListItemsMove!('object.userExperience', { 0: 1, 1: 0 })
+      props.onChange([props.value[1], props.value[0]])
+    })
+
+    expect(Array.from(result.current.touchedFields)).toEqual(['object.userExperience[1].employer'])
+    // Moving makes the list dirty, not its unchanged items
+    expect(result.current.dirtyFields).toEqual(['object.userExperience'])
+
+    act(() => {
+      result.current.getFieldProps(listField).onFieldChange!('object.userExperience[1].employer', 'Initech')
+    })
+    expect(result.current.dirtyFields).toEqual(['object.userExperience', 'object.userExperience[1].employer'])
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { renderHook, waitFor } from '@testing-library/react'
+import { renderHook, waitFor, act } from '@testing-library/react'
 import { useStore } from '../useStore'
+import { SourceCache, invalidateSource } from '../../core/SourceCache'
 import { FormConfig, ApiProvider } from '../../types'
 
 describe('useStore', () => {
@@ -353,9 +354,8 @@ describe('useStore', () => {
         { timeout: 2000 }
       )
 
-      // The implementation calls api.call(url) without method parameter (uses default)
-      // So we check that it was called with the endpoint
-      expect(mockApiProvider.call).toHaveBeenCalledWith('/api/countries')
+      // Sources without method/body/headers are fetched with GET and only the abort signal
+      expect(mockApiProvider.call).toHaveBeenCalledWith('/api/countries', 'GET', { signal: expect.any(AbortSignal) })
       expect(result.current.store.countryList).toHaveLength(2)
     })
 
@@ -395,5 +395,520 @@ describe('useStore', () => {
       expect(result.current.store.countryList).toBeDefined()
       expect(errorApiProvider.call).toHaveBeenCalled()
     })
+
+    it('should only refetch a failed source through its retries, not on store changes', async () => {
+      const errorApiProvider: ApiProvider = {
+        call: vi.fn(async () => {
+          throw new Error('API Error')
+        }),
+      }
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [{ sourceName: 'object', sourceType: 'API', endpoint: '/api/users/1' }],
+        fields: [{ fieldName: 'Name', fieldType: 'Text', binding: 'object.name' }],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: errorApiProvider, maxRetries: 1, retryDelay: 1000, sourceCache: new SourceCache() })
+      )
+      await waitFor(() => expect(result.current.errors.object).toBeDefined())
+
+      // Typing while the retry is pending does not fetch again
+      for (const name of ['A', 'Ad', 'Ada']) {
+        act(() => {
+          result.current.setStore((prev) => ({ ...prev, object: { ...prev.object, name } }))
+        })
+        await new Promise((resolve) => setTimeout(resolve, 150))
+      }
+      expect(errorApiProvider.call).toHaveBeenCalledTimes(1)
+
+      // The scheduled retry runs once, then the source stays failed until a manual retry
+      await waitFor(() => expect(errorApiProvider.call).toHaveBeenCalledTimes(2), { timeout: 2000 })
+      act(() => {
+        result.current.setStore((prev) => ({ ...prev, object: { ...prev.object, name: 'Grace' } }))
+      })
+      await new Promise((resolve) => setTimeout(resolve, 400))
+      expect(errorApiProvider.call).toHaveBeenCalledTimes(2)
+
+      await act(async () => {
+        await result.current.retrySource('object')
+      })
+      expect(errorApiProvider.call).toHaveBeenCalledTimes(3)
+    })
+
+    it('should reload a loaded source on a manual retry', async () => {
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [{ sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries' }],
+        fields: [],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider, sourceCache: new SourceCache() })
+      )
+      await waitFor(() => expect(result.current.store.countryList).toHaveLength(2))
+      expect(mockApiProvider.call).toHaveBeenCalledTimes(1)
+
+      act(() => {
+        result.current.retrySource('countryList')
+      })
+      await waitFor(() => expect(mockApiProvider.call).toHaveBeenCalledTimes(2))
+      await waitFor(() => expect(result.current.loadingStates.countryList).toBe(false))
+    })
+  })
+
+  describe('Source Types', () => {
+    it('should load Static and Computed sources without calling the API', async () => {
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          {
+            sourceName: 'priorityList',
+            sourceType: 'Static',
+            data: [
+              { label: 'Low', value: 'low' },
+              { label: 'High', value: 'high' },
+            ],
+          },
+          {
+            sourceName: 'priorityCount',
+            sourceType: 'Computed',
+            expression: 'priorityList.length',
+          },
+        ],
+        fields: [],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider })
+      )
+
+      await waitFor(
+        () => {
+          expect(result.current.store.priorityList).toHaveLength(2)
+          expect(result.current.store.priorityCount).toBe(2)
+        },
+        { timeout: 2000 }
+      )
+
+      expect(mockApiProvider.call).not.toHaveBeenCalled()
+    })
+
+    it('should report adapter errors like API errors', async () => {
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [{ sourceName: 'broken', sourceType: 'Computed' }],
+        fields: [],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider, maxRetries: 0 })
+      )
+
+      await waitFor(
+        () => {
+          expect(result.current.errors.broken?.message).toBe('Computed source "broken" has no expression')
+        },
+        { timeout: 2000 }
+      )
+    })
+  })
+
+  describe('Form Context', () => {
+    it('should resolve source parameters from the context roots', async () => {
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          {
+            sourceName: 'object',
+            sourceType: 'API',
+            endpoint: '/api/Users/{id}',
+            parameters: { id: 'queryString.userId' },
+          },
+        ],
+        fields: [],
+      }
+
+      const { result, rerender } = renderHook(
+        ({ userId }) => useStore({ config, apiProvider: mockApiProvider, context: { queryString: { userId } } }),
+        { initialProps: { userId: '123' } }
+      )
+
+      await waitFor(
+        () => {
+          expect(result.current.store.object.username).toBe('testuser')
+        },
+        { timeout: 2000 }
+      )
+      expect(mockApiProvider.call).toHaveBeenCalledWith('/api/Users/123', 'GET', { signal: expect.any(AbortSignal) })
+
+      // A new context object with the same values does not refetch
+      rerender({ userId: '123' })
+      expect(mockApiProvider.call).toHaveBeenCalledTimes(1)
+
+      rerender({ userId: '456' })
+      await waitFor(
+        () => {
+          expect(mockApiProvider.call).toHaveBeenCalledWith('/api/Users/456', 'GET', { signal: expect.any(AbortSignal) })
+        },
+        { timeout: 2000 }
+      )
+    })
+
+    it('should keep the context roots read-only', () => {
+      const config: FormConfig = { formName: 'Test Form', gridSize: 12, sources: [], fields: [] }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider, context: { user: { id: 7 }, env: { stage: 'test' } } })
+      )
+
+      expect(result.current.store.context).toEqual({ user: { id: 7 } })
+      expect(result.current.store.env).toEqual({ stage: 'test' })
+
+      act(() => {
+        result.current.setStore((prev) => ({ ...prev, context: { user: { id: 8 } }, object: { name: 'Ada' } }))
+      })
+
+      expect(result.current.store.context).toEqual({ user: { id: 7 } })
+      expect(result.current.store.object).toEqual({ name: 'Ada' })
+    })
+  })
+
+  describe('Request Cancellation', () => {
+    // Each call waits until the test resolves it, so responses can arrive out of order
+    const createDeferredApi = () => {
+      const calls: Array<{ endpoint: string; signal?: AbortSignal; resolve: (data: any) => void }> = []
+      const apiProvider: ApiProvider = {
+        call: vi.fn(
+          (endpoint: string, _method?: string, options?: { signal?: AbortSignal }) =>
+            new Promise((resolve) => calls.push({ endpoint, signal: options?.signal, resolve }))
+        ),
+      }
+      return { apiProvider, calls }
+    }
+
+    const stateConfig: FormConfig = {
+      formName: 'Test Form',
+      gridSize: 12,
+      sources: [
+        {
+          sourceName: 'stateList',
+          sourceType: 'API',
+          endpoint: '/api/states/{country}',
+          parameters: { country: 'queryString.country' },
+        },
+      ],
+      fields: [],
+    }
+
+    it('should cancel superseded fetches and apply only the latest response', async () => {
+      const { apiProvider, calls } = createDeferredApi()
+      const { result, rerender } = renderHook(
+        ({ country }) => useStore({ config: stateConfig, apiProvider, context: { queryString: { country } } }),
+        { initialProps: { country: 'US' } }
+      )
+
+      await waitFor(() => expect(calls).toHaveLength(1))
+      rerender({ country: 'CA' })
+      await waitFor(() => expect(calls).toHaveLength(2), { timeout: 2000 })
+
+      expect(calls[0].signal?.aborted).toBe(true)
+      expect(calls[1].signal?.aborted).toBe(false)
+
+      // The outdated response arrives last and is ignored
+      await act(async () => {
+        calls[1].resolve([{ code: 'ON' }])
+        calls[0].resolve([{ code: 'NY' }])
+      })
+
+      expect(result.current.store.stateList).toEqual([{ code: 'ON' }])
+      expect(result.current.loadingStates.stateList).toBe(false)
+    })
+
+    it('should abort in-flight requests on unmount', async () => {
+      const { apiProvider, calls } = createDeferredApi()
+      const { unmount } = renderHook(() =>
+        useStore({ config: stateConfig, apiProvider, context: { queryString: { country: 'US' } } })
+      )
+
+      await waitFor(() => expect(calls).toHaveLength(1))
+      unmount()
+
+      expect(calls[0].signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('Source Cache', () => {
+    it('should share cached responses between forms', async () => {
+      const sourceCache = new SourceCache()
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'object', sourceType: 'Static', data: {} },
+          {
+            sourceName: 'countryList',
+            sourceType: 'API',
+            endpoint: '/api/countries',
+            cache: { ttl: 60000 },
+          },
+        ],
+        fields: [],
+      }
+
+      const first = renderHook(() => useStore({ config, apiProvider: mockApiProvider, sourceCache }))
+      const second = renderHook(() => useStore({ config, apiProvider: mockApiProvider, sourceCache }))
+
+      await waitFor(
+        () => {
+          expect(first.result.current.store.countryList).toHaveLength(2)
+          expect(second.result.current.store.countryList).toHaveLength(2)
+        },
+        { timeout: 2000 }
+      )
+      expect(mockApiProvider.call).toHaveBeenCalledTimes(1)
+
+      // A form mounted later uses the cached response
+      const third = renderHook(() => useStore({ config, apiProvider: mockApiProvider, sourceCache }))
+      await waitFor(() => expect(third.result.current.store.countryList).toHaveLength(2))
+      expect(mockApiProvider.call).toHaveBeenCalledTimes(1)
+
+      // Invalidation reloads the source in mounted forms
+      act(() => {
+        invalidateSource('countryList', sourceCache)
+      })
+      await waitFor(() => expect(mockApiProvider.call).toHaveBeenCalledTimes(2), { timeout: 2000 })
+    })
+  })
+
+  describe('Source Graph', () => {
+    it('should load chained sources in dependency order in one pass', async () => {
+      const chainApi: ApiProvider = {
+        call: vi.fn(async (endpoint: string) => {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+          if (endpoint === '/api/countries') return { selected: 'US' }
+          if (endpoint === '/api/states/US') return { selected: 'NY' }
+          if (endpoint === '/api/cities/NY') return ['New York City']
+          return []
+        }),
+      }
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'cityList', sourceType: 'API', endpoint: '/api/cities/{state}', parameters: { state: 'stateList.selected' } },
+          { sourceName: 'stateList', sourceType: 'API', endpoint: '/api/states/{country}', parameters: { country: 'countryList.selected' } },
+          { sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries' },
+          { sourceName: 'languageList', sourceType: 'Static', data: ['en'] },
+        ],
+        fields: [],
+      }
+
+      const { result } = renderHook(() => useStore({ config, apiProvider: chainApi }))
+
+      await waitFor(() => expect(result.current.store.cityList).toEqual(['New York City']), { timeout: 2000 })
+      expect(result.current.store.languageList).toEqual(['en'])
+      expect(vi.mocked(chainApi.call).mock.calls.map(([endpoint]) => endpoint)).toEqual([
+        '/api/countries',
+        '/api/states/US',
+        '/api/cities/NY',
+      ])
+    })
+
+    it('should report cycles and unknown sources as source errors', async () => {
+      const onError = vi.fn()
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'a', sourceType: 'API', endpoint: '/api/a/{id}', parameters: { id: 'b.id' } },
+          { sourceName: 'b', sourceType: 'API', endpoint: '/api/b/{id}', parameters: { id: 'a.id' } },
+          { sourceName: 'stateList', sourceType: 'API', endpoint: '/api/states/{c}', parameters: { c: 'countrList.code' } },
+        ],
+        fields: [],
+      }
+
+      // A new config object on every render rebuilds the graph
+      const { result, rerender } = renderHook(() =>
+        useStore({
+          config: { ...config, sources: config.sources.map((source) => ({ ...source })) },
+          apiProvider: mockApiProvider,
+          onError,
+        })
+      )
+
+      await waitFor(() => {
+        expect(result.current.errors.a?.message).toBe('Circular source dependency: a -> b -> a')
+        expect(result.current.errors.stateList?.message).toBe(
+          'Source "stateList" reads "countrList.code", but there is no source "countrList"'
+        )
+      })
+      expect(result.current.errors.a.retryable).toBe(false)
+      rerender()
+      rerender()
+      expect(onError).toHaveBeenCalledTimes(3)
+      expect(mockApiProvider.call).not.toHaveBeenCalled()
+
+      // Retrying cannot fix the config: the error stays
+      await act(async () => {
+        await result.current.retrySource('a')
+      })
+      expect(result.current.errors.a?.message).toBe('Circular source dependency: a -> b -> a')
+      expect(mockApiProvider.call).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Source Select and Transforms', () => {
+    it('should store the selected and transformed response, and sync it to List bindings', async () => {
+      const wrappedApi: ApiProvider = {
+        call: vi.fn(async (endpoint: string) => {
+          if (endpoint === '/api/users/1') return { user: { id: 1, name: 'Ada' } }
+          return { total: 2, items: [{ employer: 'Zeta' }, { employer: 'Acme' }] }
+        }),
+      }
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'object', sourceType: 'API', endpoint: '/api/users/1', select: 'user' },
+          {
+            sourceName: 'experienceList',
+            sourceType: 'API',
+            endpoint: '/api/experience',
+            select: 'items',
+            transform: [{ name: 'sortBy', key: 'employer' }],
+          },
+        ],
+        fields: [
+          {
+            fieldName: 'Experience',
+            fieldType: 'List',
+            binding: 'object.experience',
+            listSource: 'experienceList',
+            itemObject: 'experienceItem',
+            fields: [{ fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' }],
+          },
+        ],
+      }
+
+      const { result } = renderHook(() => useStore({ config, apiProvider: wrappedApi, sourceCache: new SourceCache() }))
+
+      await waitFor(() => {
+        expect(result.current.store.object).toMatchObject({ id: 1, name: 'Ada' })
+        expect(result.current.store.experienceList).toEqual([{ employer: 'Acme' }, { employer: 'Zeta' }])
+        expect(result.current.store.object.experience).toEqual([{ employer: 'Acme' }, { employer: 'Zeta' }])
+      })
+    })
+
+    it('should report failing transforms as source errors', async () => {
+      const onError = vi.fn()
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'object', sourceType: 'Static', data: {} },
+          { sourceName: 'countryList', sourceType: 'Static', data: { items: [] }, transform: ['pluck'] },
+        ],
+        fields: [],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider, onError, maxRetries: 0, sourceCache: new SourceCache() })
+      )
+
+      await waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ sourceName: 'countryList', message: 'Source transform "pluck" is not registered' })
+        )
+      )
+      expect(result.current.store.countryList).toEqual([])
+    })
+
+    it('should not retry the request when its transform fails', async () => {
+      const onError = vi.fn()
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'object', sourceType: 'Static', data: {} },
+          { sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries', select: 'data.items', transform: ['pluck'] },
+        ],
+        fields: [],
+      }
+
+      const { result } = renderHook(() =>
+        useStore({ config, apiProvider: mockApiProvider, onError, retryDelay: 10, sourceCache: new SourceCache() })
+      )
+
+      await waitFor(() => expect(result.current.errors.countryList?.retryable).toBe(false))
+      act(() => {
+        result.current.setStore((prev) => ({ ...prev, object: { name: 'Ada' } }))
+      })
+      await new Promise((resolve) => setTimeout(resolve, 300))
+
+      expect(mockApiProvider.call).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(result.current.errors.countryList.message).toBe('Source transform "pluck" is not registered')
+    })
+  })
+
+  describe('Computed Fields', () => {
+    it('should keep source data and recompute values it overwrites when a source resolves after computing', async () => {
+      const apiProvider: ApiProvider = {
+        call: vi.fn(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 200))
+          return { username: 'testuser', total: 999 }
+        }),
+      }
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        sources: [
+          { sourceName: 'rate', sourceType: 'Static', data: 3 },
+          { sourceName: 'object', sourceType: 'API', endpoint: '/api/order' },
+        ],
+        fields: [{ fieldName: 'Total', fieldType: 'Number', binding: 'object.total', compute: 'rate * 10' }],
+      }
+
+      const { result } = renderHook(() => useStore({ config, apiProvider, sourceCache: new SourceCache() }))
+
+      // Computed from the static source before the API responds
+      await waitFor(() => expect(result.current.store.object?.total).toBe(30))
+      expect(result.current.store.object?.username).toBeUndefined()
+
+      // The response overwrites the computed binding while its inputs are unchanged
+      await waitFor(() => expect(result.current.store.object?.username).toBe('testuser'))
+      await waitFor(() => expect(result.current.store.object).toEqual({ username: 'testuser', total: 30 }))
+    })
+  })
+
+  describe('Data Source', () => {
+    it('should only merge the configured data source into the form data', async () => {
+      const config: FormConfig = {
+        formName: 'Test Form',
+        gridSize: 12,
+        dataSource: 'customer',
+        sources: [
+          { sourceName: 'countryList', sourceType: 'API', endpoint: '/api/countries' },
+          { sourceName: 'customer', sourceType: 'Static', data: { name: 'Acme', country: 'CA' } },
+        ],
+        fields: [{ fieldName: 'Country', fieldType: 'Dropdown', binding: 'customer.country', optionsSource: 'countryList' }],
+      }
+
+      const { result } = renderHook(() => useStore({ config, apiProvider: mockApiProvider, sourceCache: new SourceCache() }))
+
+      // Parameterless option sources are stored as-is, never taken for the form data
+      expect(result.current.store).toMatchObject({ customer: {}, countryList: [] })
+      await waitFor(() => {
+        expect(result.current.store.customer).toEqual({ name: 'Acme', country: 'CA' })
+        expect(result.current.store.countryList).toHaveLength(2)
+      })
+      expect(result.current.store.object).toBeUndefined()
+    })
   })
 })
@@ -1,2 +1,5 @@
 export { useStore } from './useStore'
 export type { UseStoreReturn, UseStoreOptions, ApiError } from './useStore'
+export { useDynamicForm } from './useDynamicForm'
+export type { UseDynamicFormOptions, UseDynamicFormReturn, DynamicFormActions } from './useDynamicForm'
+export { usePlugins } from './usePlugins'
@@ -0,0 +1,958 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { FormConfig, ApiProvider, FormContext, ValidationTrigger, FormField as FormFieldType } from '../types'
+import type { FormFieldProps } from '../components/FormField'
+import { useStore, ApiError } from './useStore'
+import { getNestedValue } from '../utils/nestedValue'
+import { isFieldRequired, isFieldVisible as isVisible } from '../utils/visibility'
+import { findFieldByBinding, getFieldDefaultValue, remapListItemKeys, resolveListItems } from '../utils/listItems'
+import { getFieldsToReset } from '../utils/dependentFields'
+import { getInvalidOptionMessage, isOptionAvailable } from '../utils/options'
+import { buildSubmitRequest } from '../utils/submit'
+import { getDataSourceName, getInitialSourceValue } from '../utils/dataSource'
+import { findTopLevelField, getDirtyFields } from '../utils/formState'
+import { BindingResolver } from '../core/BindingResolver'
+import { ValidationEngine, defaultValidationEngine } from '../core/ValidationEngine'
+import type { ComputedFieldEngine } from '../core/ComputedFieldEngine'
+import type { SourceAdapterRegistry } from '../core/SourceAdapterRegistry'
+import type { SourceCache } from '../core/SourceCache'
+import type { SourceTransformer } from '../core/SourceTransformer'
+import { ServerErrorMapper, defaultServerErrorMapper } from '../core/ServerErrorMapper'
+import { PayloadSerializer, defaultPayloadSerializer } from '../core/PayloadSerializer'
+
+export interface UseDynamicFormOptions {
+  onError?: (error: ApiError) => void
+  onValidationError?: (errors: Record<string, string>) => void
+  onSubmit?: (data: Record<string, any>) => void | Promise<void>
+  // Called after a successful config.submit request with the server response and the sent payload
+  onSubmitSuccess?: (response: any, payload: any) => void
+  onReset?: () => void
+  successTimeout?: number
+  maxRetries?: number
+  retryDelay?: number
+  // Optional localStorage persistence (overrides config.persistState if provided)
+  persistState?: boolean
+  storageKey?: string
+  // Validation engine used for all field checks (defaults to defaultValidationEngine)
+  validationEngine?: ValidationEngine
+  // Engine used to evaluate computed fields (defaults to defaultComputedFieldEngine)
+  computedFieldEngine?: ComputedFieldEngine
+  // Adapters loading each source type (defaults to defaultSourceAdapterRegistry)
+  sourceAdapters?: SourceAdapterRegistry
+  // Cache shared with other forms (defaults to defaultSourceCache)
+  sourceCache?: SourceCache
+  // Applies source select and transforms (defaults to defaultSourceTransformer)
+  sourceTransformer?: SourceTransformer
+  // Route params, current user, tenant, ... exposed as read-only queryString.*, context.* and env.*
+  context?: FormContext
+  // Maps submit errors to field errors and a form-level banner (defaults to defaultServerErrorMapper)
+  serverErrorMapper?: ServerErrorMapper
+  // Builds the submitted payload: strips internal keys, omits hidden fields, applies output transforms
+  payloadSerializer?: PayloadSerializer
+  // Show field errors always (default) or only once the field was touched (blurred) or the form submitted
+  showErrorsWhen?: 'always' | 'touched'
+  // Ask for confirmation before leaving the page while the form has unsaved changes
+  warnOnUnsavedChanges?: boolean
+  // Called when the form becomes dirty or clean, with the dirty bindings
+  onDirtyChange?: (isDirty: boolean, dirtyFields: string[]) => void
+  // Called when a field is touched, with all touched bindings
+  onTouchedChange?: (touchedFields: string[]) => void
+  // Called when the wizard moves to another step (layout: 'wizard')
+  onStepChange?: (step: number, sectionName: string) => void
+}
+
+/**
+ * Form actions (also exposed by DynamicForm through a ref as DynamicFormHandle)
+ */
+export interface DynamicFormActions {
+  /**
+   * Validate the whole form and submit it (as the submit button on the last step)
+   * @returns True if the form was valid and submitted successfully
+   */
+  submit: () => Promise<boolean>
+  /**
+   * Reset the form to its initial state
+   */
+  reset: () => void
+  /**
+   * Validate the whole form, or only the given bindings (including their nested List item bindings)
+   * @param paths - Binding paths to validate (default: all fields)
+   * @returns The errors found, keyed by binding path
+   */
+  validate: (paths?: string[]) => Promise<Record<string, string>>
+  /**
+   * Get the current form data
+   */
+  getValues: () => Record<string, any>
+  /**
+   * Set a field value as if the user changed it (resets dependent fields, runs onChange validation)
+   */
+  setValue: (bindingPath: string, value: any) => void
+  /**
+   * Set a field error, or clear it when no message is given
+   */
+  setError: (bindingPath: string, message?: string) => void
+  /**
+   * Show the section of a field and focus its first control
+   * The field is looked up by its `data-binding` attribute inside the element attached to `formRef`.
+   */
+  focus: (bindingPath: string) => void
+  /**
+   * Reload a data source
+   */
+  retrySource: (sourceName: string) => void
+}
+
+export interface UseDynamicFormReturn {
+  // Entire form store and data source state
+  store: Record<string, any>
+  loadingStates: Record<string, boolean>
+  // True while the main object is loading for the first time
+  isLoading: boolean
+  apiErrors: ApiError[]
+  clearSourceError: (sourceName: string) => void
+
+  // Validation and submission state
+  errors: Record<string, string>
+  // Errors to show (only touched fields with showErrorsWhen="touched")
+  displayedErrors: Record<string, string>
+  validatingFields: Set<string>
+  submitStatus: 'success' | 'error' | null
+  // Form-level error message returned by the server
+  serverError: string | null
+  isSubmitting: boolean
+
+  // Dirty/touched state
+  touchedFields: Set<string>
+  dirtyFields: string[]
+  isDirty: boolean
+
+  // Visible fields, grouped by section name in declaration order
+  visibleFields: FormFieldType[]
+  sections: Record<string, FormFieldType[]>
+  sectionErrorCounts: Record<string, number>
+  // Sections can be collapsed (accordion layout, or collapsibleSections outside wizard/tabs)
+  canCollapseSections: boolean
+  isSectionCollapsed: (sectionName: string) => boolean
+  toggleSection: (sectionName: string) => void
+
+  // Wizard and tabs layouts: every visible section is a step/tab
+  stepNames: string[]
+  activeStep: number
+  isLastStep: boolean
+  goToStep: (step: number) => void
+  nextStep: () => Promise<void>
+  previousStep: () => void
+
+  /**
+   * Props for rendering a top-level field with FormField (or any component accepting FormFieldProps)
+   */
+  getFieldProps: (field: FormFieldType) => FormFieldProps
+  // Attach to the <form> element (used by focus)
+  formRef: React.RefObject<HTMLFormElement>
+  // Form onSubmit handler (advances instead on wizard steps before the last one)
+  handleSubmit: (e: React.FormEvent) => Promise<void>
+  actions: DynamicFormActions
+}
+
+// Check if an error key belongs to a field (its own binding or a nested List item binding)
+const isErrorForField = (errorKey: string, field: FormFieldType): boolean =>
+  errorKey === field.binding || errorKey.startsWith(`${field.binding}[`)
+
+/**
+ * Headless form hook: all DynamicForm state and behavior without any markup.
+ * Loads the data sources, tracks values, errors, dirty/touched state and layout steps,
+ * and submits the form. DynamicForm is the default renderer on top of it.
+ *
+ * @param config - Form configuration
+ * @param apiProvider - Required API provider implementation
+ * @param options - Callbacks, engines and behavior options (same as the DynamicForm props)
+ *
+ * @example
+ * ```tsx
+ * const form = useDynamicForm(config, apiProvider)
+ *
+ * return (
+ *   <form ref={form.formRef} onSubmit={form.handleSubmit}>
+ *     {form.visibleFields.map((field) => (
+ *       <FormField key={field.binding} {...form.getFieldProps(field)} />
+ *     ))}
+ *     <button type="submit" disabled={form.isSubmitting}>Save</button>
+ *   </form>
+ * )
+ * ```
+ */
+export function useDynamicForm(
+  config: FormConfig,
+  apiProvider: ApiProvider,
+  options: UseDynamicFormOptions = {}
+): UseDynamicFormReturn {
+  const {
+    onError,
+    onValidationError,
+    onSubmit,
+    onSubmitSuccess,
+    onReset,
+    successTimeout = 3000,
+    maxRetries = 3,
+    retryDelay = 1000,
+    persistState: persistStateOption,
+    storageKey: storageKeyOption,
+    validationEngine = defaultValidationEngine,
+    computedFieldEngine,
+    sourceAdapters,
+    sourceCache,
+    sourceTransformer,
+    context,
+    serverErrorMapper = defaultServerErrorMapper,
+    payloadSerializer = defaultPayloadSerializer,
+    showErrorsWhen = 'always',
+    warnOnUnsavedChanges = false,
+    onDirtyChange,
+    onTouchedChange,
+    onStepChange,
+  } = options
+
+  // Use option if provided, otherwise fall back to config
+  const persistState = persistStateOption !== undefined ? persistStateOption : (config.persistState ?? false)
+  const storageKey = storageKeyOption || config.storageKey || `form-${config.formName.replace(/\s+/g, '-').toLowerCase()}`
+  // Source holding the form data (loaded, persisted, reset and submitted)
+  const dataSource = getDataSourceName(config)
+  const { store, setStore, loadingStates, errors, retrySource, clearError } = useStore({
+    config,
+    apiProvider,
+    maxRetries,
+    retryDelay,
+    onError,
+    computedFieldEngine,
+    sourceAdapters,
+    sourceCache,
+    sourceTransformer,
+    context,
+  })
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+  const [submitStatus, setSubmitStatus] = useState<'success' | 'error' | null>(null)
+  // Form-level error message returned by the server (shown as a banner)
+  const [serverError, setServerError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [validatingFields, setValidatingFields] = useState<Set<string>>(new Set())
+
+  // Collapsible sections state
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set())
+
+  // Wizard step / active tab (index into the visible sections)
+  const [currentStep, setCurrentStep] = useState(0)
+
+  // Touched tracking: the bindings that lost focus at least once
+  const [touchedFields, setTouchedFields] = useState<Set<string>>(new Set())
+  // Initial items of reordered List fields, by their current indexed binding (see getDirtyFields)
+  const [initialListItems, setInitialListItems] = useState<Record<string, Record<string, any>>>({})
+
+  // Binding to focus once its section is rendered (see DynamicFormActions.focus)
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null)
+
+  // Store initial state for reset and dirty tracking (replaced after a successful submit);
+  // the state copy re-renders the form when it is replaced
+  const initialStoreRef = useRef<Record<string, any>>({})
+  const isInitializedRef = useRef(false)
+  const [initialStore, setInitialStore] = useState<Record<string, any> | null>(null)
+  const formRef = useRef<HTMLFormElement>(null)
+
+  // Create BindingResolver instance (memoized for performance)
+  const bindingResolver = useMemo(() => new BindingResolver(), [])
+
+  // All section names in declaration order (including sections hidden by visibility rules)
+  const allSectionNames = useMemo(
+    () => Array.from(new Set(config.fields.map(f => f.section || 'General'))),
+    [config.fields]
+  )
+
+  // Initialize collapsible sections
+  useEffect(() => {
+    if (config.layout === 'accordion') {
+      // Accordion: only the first section starts expanded
+      setCollapsedSections(new Set(allSectionNames.slice(1)))
+    } else if (config.collapsibleSections) {
+      const defaultState = config.defaultSectionState || 'expanded'
+      if (defaultState === 'collapsed') {
+        setCollapsedSections(new Set(allSectionNames))
+      }
+    }
+  }, [config.layout, config.collapsibleSections, config.defaultSectionState, allSectionNames])
+
+  const saveInitialStore = useCallback((snapshot: Record<string, any>) => {
+    initialStoreRef.current = JSON.parse(JSON.stringify(snapshot))
+    isInitializedRef.current = true
+    setInitialStore(initialStoreRef.current)
+    setInitialListItems({})
+  }, [])
+
+  // Save initial store state once the data source loaded (or failed, or is not a configured source)
+  useEffect(() => {
+    if (isInitializedRef.current) return
+    const data = store[dataSource]
+    const isLoaded =
+      (data && Object.keys(data).length > 0) ||
+      loadingStates[dataSource] === false ||
+      !config.sources.some((source) => source.sourceName === dataSource)
+    if (!isLoaded) return
+
+    saveInitialStore(store)
+
+    // Restore form state from localStorage over the loaded data, so restored changes are dirty
+    if (persistState) {
+      try {
+        const savedData = localStorage.getItem(storageKey)
+        if (savedData) {
+          const parsed = JSON.parse(savedData)
+          if (parsed[dataSource]) {
+            setStore((prev) => ({
+              ...prev,
+              [dataSource]: { ...prev[dataSource], ...parsed[dataSource] },
+            }))
+          }
+        }
+      } catch (error) {
+        console.warn('[DynamicForm] Failed to restore form state from localStorage:', error)
+      }
+    }
+  }, [store, loadingStates, dataSource, config.sources, persistState, storageKey, setStore, saveInitialStore])
+
+  // Persist form state to localStorage (once restored, so the saved state is not overwritten while loading)
+  useEffect(() => {
+    if (persistState && isInitializedRef.current && store[dataSource]) {
+      try {
+        const dataToSave = {
+          [dataSource]: store[dataSource],
+          timestamp: Date.now(),
+        }
+        localStorage.setItem(storageKey, JSON.stringify(dataToSave))
+      } catch (error) {
+        console.warn('[DynamicForm] Failed to save form state to localStorage:', error)
+      }
+    }
+  }, [store[dataSource], dataSource, persistState, storageKey])
+
+  // Flag selections that no longer exist among freshly loaded options
+  const optionsDataRef = useRef<Record<string, any>>({})
+  useEffect(() => {
+    const reloadedSources = config.sources
+      .map((source) => source.sourceName)
+      .filter((sourceName) => store[sourceName] !== optionsDataRef.current[sourceName])
+    reloadedSources.forEach((sourceName) => {
+      optionsDataRef.current[sourceName] = store[sourceName]
+    })
+    if (reloadedSources.length === 0) return
+
+    const invalidSelections: Record<string, string> = {}
+    config.fields.forEach((field) => {
+      if (!field.optionsSource || !reloadedSources.includes(field.optionsSource)) return
+      if (!isVisible(field, store)) return
+      if (!isOptionAvailable(field, getNestedValue(store, field.binding), store)) {
+        invalidSelections[field.binding] = getInvalidOptionMessage(field)
+      }
+    })
+    if (Object.keys(invalidSelections).length > 0) {
+      setFormErrors((prev) => ({ ...prev, ...invalidSelections }))
+    }
+  }, [store, config.sources, config.fields])
+
+  // Check if field should be visible
+  const isFieldVisible = useCallback(
+    (field: FormFieldType): boolean => isVisible(field, store),
+    [store]
+  )
+
+  // Validate a single field through the validation engine
+  const validateField = (
+    field: FormFieldType,
+    value: any,
+    trigger: ValidationTrigger = 'onSubmit'
+  ): Promise<string | undefined> => {
+    return validationEngine.validateField(field, value, store, trigger)
+  }
+
+  const handleFieldChange = async (bindingPath: string, newValue: any, trigger: ValidationTrigger = 'onChange') => {
+    // Dependent fields (resetOn or optionsSource parameters) are cleared when the value actually changes
+    const valueChanged = JSON.stringify(getNestedValue(store, bindingPath)) !== JSON.stringify(newValue)
+    const fieldsToReset = valueChanged ? getFieldsToReset(config.fields, config.sources, bindingPath) : []
+
+    // Use BindingResolver to handle path parsing and value setting
+    setStore((prev) => {
+      let next = bindingResolver.set(bindingPath, newValue, prev)
+      fieldsToReset.forEach((dependent) => {
+        const resetValue = dependent.resetValue !== undefined ? dependent.resetValue : getFieldDefaultValue(dependent)
+        next = bindingResolver.set(dependent.binding, resetValue, next)
+      })
+      return next
+    })
+
+    if (fieldsToReset.length > 0) {
+      setFormErrors((prev) => {
+        const newErrors = { ...prev }
+        fieldsToReset.forEach((dependent) => {
+          Object.keys(newErrors)
+            .filter((key) => isErrorForField(key, dependent))
+            .forEach((key) => delete newErrors[key])
+        })
+        return newErrors
+      })
+    }
+
+    // Find the field for this binding (including nested List item fields)
+    const field = findFieldByBinding(config.fields, bindingPath)
+    if (field) {
+      // Clear existing error immediately (a blur without changes keeps it)
+      if (valueChanged && formErrors[bindingPath]) {
+        setFormErrors((prev) => {
+          const newErrors = { ...prev }
+          delete newErrors[bindingPath]
+          return newErrors
+        })
+      }
+
+      // Validate on change/blur if configured
+      const validateOn = field.validateOn || ['onSubmit']
+      if (validateOn.includes(trigger)) {
+        setValidatingFields((prev) => new Set(prev).add(bindingPath))
+
+        try {
+          const error = await validateField(field, newValue, trigger)
+          setFormErrors((prev) => {
+            const newErrors = { ...prev }
+            if (error) {
+              newErrors[bindingPath] = error
+            } else {
+              delete newErrors[bindingPath]
+            }
+            return newErrors
+          })
+        } finally {
+          setValidatingFields((prev) => {
+            const newSet = new Set(prev)
+            newSet.delete(bindingPath)
+            return newSet
+          })
+        }
+      }
+    }
+  }
+
+  // Keep errors, touched state and initial values attached to their items when List items are moved or removed
+  const handleListItemsMove = useCallback((listBinding: string, indexMap: Record<number, number | null>) => {
+    setFormErrors((prev) => remapListItemKeys(prev, listBinding, indexMap))
+    setTouchedFields((prev) => {
+      const touched = Object.fromEntries(Array.from(prev, (bindingPath) => [bindingPath, true]))
+      return new Set(Object.keys(remapListItemKeys(touched, listBinding, indexMap)))
+    })
+    setInitialListItems((prev) => {
+      const listField = config.fields.find((field) => field.binding === listBinding)
+      const initialItems = listField && initialStore ? resolveListItems(listField, initialStore) : []
+      const items = prev[listBinding] ?? Object.fromEntries(
+        initialItems.map((item, index) => [`${listBinding}[${index}]`, item])
+      )
+      return { ...prev, [listBinding]: remapListItemKeys(items, listBinding, indexMap) }
+    })
+  }, [config.fields, initialStore])
+
+  // Mark fields as touched (their errors become visible with showErrorsWhen="touched")
+  const markTouched = (bindingPaths: string[]) => {
+    setTouchedFields((prev) => {
+      if (bindingPaths.every((bindingPath) => prev.has(bindingPath))) return prev
+      return new Set([...prev, ...bindingPaths])
+    })
+  }
+
+  const handleFieldBlur = (bindingPath: string, value: any) => {
+    markTouched([bindingPath])
+    handleFieldChange(bindingPath, value, 'onBlur')
+  }
+
+  const validate = async (): Promise<Record<string, string>> => {
+    // Only visible fields that validate on submit are checked
+    const newErrors = await validationEngine.validateForm(config, store, {
+      trigger: 'onSubmit',
+      isVisible,
+    })
+
+    setFormErrors(newErrors)
+    return newErrors
+  }
+
+  // Validate only the given bindings, replacing their previous errors (including nested List item errors)
+  const validatePaths = async (bindingPaths: string[]): Promise<Record<string, string>> => {
+    const isRequested = (errorKey: string) =>
+      bindingPaths.some((bindingPath) => errorKey === bindingPath || errorKey.startsWith(`${bindingPath}[`))
+    const fields = Array.from(new Set(
+      bindingPaths
+        .map((bindingPath) => findTopLevelField(config.fields, bindingPath))
+        .filter((field): field is FormFieldType => !!field)
+    ))
+    const allErrors = await validationEngine.validateForm({ fields }, store, {
+      trigger: 'onSubmit',
+      isVisible,
+    })
+    const pathErrors = Object.fromEntries(Object.entries(allErrors).filter(([key]) => isRequested(key)))
+
+    setFormErrors((prev) => {
+      const newErrors = Object.fromEntries(Object.entries(prev).filter(([key]) => !isRequested(key)))
+      return { ...newErrors, ...pathErrors }
+    })
+    return pathErrors
+  }
+
+  // Validate and submit the whole form
+  const submitForm = async (): Promise<boolean> => {
+    const validationErrors = await validate()
+    if (Object.keys(validationErrors).length > 0) {
+      setSubmitStatus('error')
+      markTouched(Object.keys(validationErrors))
+      showFirstInvalidSection(validationErrors)
+      if (onValidationError) {
+        onValidationError(validationErrors)
+      }
+      return false
+    }
+
+    setIsSubmitting(true)
+    setSubmitStatus(null)
+    setServerError(null)
+
+    try {
+      const payload = payloadSerializer.serialize(config, store, { dataSource, isVisible })
+      if (onSubmit) {
+        await onSubmit(payload)
+      } else if (config.submit) {
+        // Payload mappings read from the serialized data
+        const request = buildSubmitRequest(config.submit, { ...store, [dataSource]: payload }, dataSource)
+        const response = await apiProvider.call(request.url, request.method, request.options)
+        if (onSubmitSuccess) {
+          onSubmitSuccess(response, request.options.body)
+        }
+      } else {
+        console.log('Submitting Form Data:', payload)
+      }
+
+      if (config.submit?.resetOnSuccess && !onSubmit) {
+        handleReset()
+      } else {
+        // The submitted values are the new baseline
+        saveInitialStore(store)
+      }
+      setSubmitStatus('success')
+      setTimeout(() => setSubmitStatus(null), successTimeout)
+
+      // Clear persisted state on successful submit if configured
+      if (persistState) {
+        try {
+          localStorage.removeItem(storageKey)
+        } catch (error) {
+          console.warn('[DynamicForm] Failed to clear persisted state:', error)
+        }
+      }
+      return true
+    } catch (error) {
+      setSubmitStatus('error')
+
+      // Show server-side field errors on their fields; errors for unknown or hidden fields go to the banner
+      const { fieldErrors, formError } = serverErrorMapper.map(error, {
+        dataSource,
+        sourceNames: config.sources.map((source) => source.sourceName),
+      })
+      const bannerMessages = formError ? [formError] : []
+      const serverErrors: Record<string, string> = {}
+      Object.entries(fieldErrors).forEach(([bindingPath, message]) => {
+        const field = findFieldByBinding(config.fields, bindingPath)
+        if (field && isVisible(field, store)) {
+          serverErrors[bindingPath] = message
+        } else {
+          bannerMessages.push(message)
+        }
+      })
+      if (Object.keys(serverErrors).length > 0) {
+        setFormErrors(serverErrors)
+        markTouched(Object.keys(serverErrors))
+        showFirstInvalidSection(serverErrors)
+      }
+      if (bannerMessages.length > 0) {
+        setServerError(bannerMessages.join(' '))
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to submit form'
+      console.error('Form submission error:', error)
+      if (onError) {
+        onError({
+          sourceName: 'form-submission',
+          endpoint: config.submit?.endpoint || '',
+          message: errorMessage,
+          error,
+          timestamp: Date.now(),
+          retryCount: 0,
+        })
+      }
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // In a wizard, submitting before the last step advances instead
+    if (isWizard && !isLastStep) {
+      await handleNext()
+      return
+    }
+
+    await submitForm()
+  }
+
+  const handleReset = useCallback(() => {
+    if (initialStoreRef.current && Object.keys(initialStoreRef.current).length > 0) {
+      setStore(JSON.parse(JSON.stringify(initialStoreRef.current)))
+    } else {
+      // Reset to empty state
+      setStore((prev) => {
+        const reset: Record<string, any> = {}
+        config.sources.forEach((source) => {
+          reset[source.sourceName] = getInitialSourceValue(source.sourceName, dataSource)
+        })
+        return { ...reset, ...prev }
+      })
+    }
+    setFormErrors({})
+    setSubmitStatus(null)
+    setServerError(null)
+    setCurrentStep(0)
+    setTouchedFields(new Set())
+    setInitialListItems({})
+
+    // Clear persisted state
+    if (persistState) {
+      try {
+        localStorage.removeItem(storageKey)
+      } catch (error) {
+        console.warn('[DynamicForm] Failed to clear persisted state on reset:', error)
+      }
+    }
+
+    if (onReset) {
+      onReset()
+    }
+  }, [config.sources, dataSource, persistState, storageKey, setStore, onReset])
+
+  // Bindings whose values differ from the initial store (including List items)
+  const dirtyFields = useMemo(
+    () => (initialStore ? getDirtyFields(config.fields, store, initialStore, initialListItems) : []),
+    [config.fields, store, initialStore, initialListItems]
+  )
+  const isDirty = dirtyFields.length > 0
+
+  // Errors shown to the user (only touched fields with showErrorsWhen="touched")
+  const displayedErrors = useMemo(() => {
+    if (showErrorsWhen !== 'touched') return formErrors
+    return Object.fromEntries(Object.entries(formErrors).filter(([bindingPath]) => touchedFields.has(bindingPath)))
+  }, [formErrors, touchedFields, showErrorsWhen])
+
+  // Notify when the set of dirty fields changes (not on mount), with the latest callback
+  const onDirtyChangeRef = useRef(onDirtyChange)
+  onDirtyChangeRef.current = onDirtyChange
+  const dirtyFieldsKey = dirtyFields.join('|')
+  const prevDirtyFieldsKeyRef = useRef(dirtyFieldsKey)
+  useEffect(() => {
+    if (prevDirtyFieldsKeyRef.current === dirtyFieldsKey) return
+    prevDirtyFieldsKeyRef.current = dirtyFieldsKey
+    onDirtyChangeRef.current?.(isDirty, dirtyFields)
+  }, [dirtyFieldsKey, isDirty, dirtyFields])
+
+  useEffect(() => {
+    if (onTouchedChange) {
+      onTouchedChange(Array.from(touchedFields))
+    }
+  }, [touchedFields])
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!warnOnUnsavedChanges || !isDirty) return
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+      // Required by some browsers to show the confirmation dialog
+      event.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [warnOnUnsavedChanges, isDirty])
+
+  // Toggle section collapse
+  const toggleSection = useCallback((sectionName: string) => {
+    setCollapsedSections((prev) => {
+      if (config.layout === 'accordion' && prev.has(sectionName)) {
+        // Accordion: expanding one section collapses all others
+        return new Set(allSectionNames.filter((name) => name !== sectionName))
+      }
+      const newSet = new Set(prev)
+      if (newSet.has(sectionName)) {
+        newSet.delete(sectionName)
+      } else {
+        newSet.add(sectionName)
+      }
+      return newSet
+    })
+  }, [config.layout, allSectionNames])
+
+  // Memoize visible fields and their sections
+  const visibleFields = useMemo(
+    () => config.fields.filter((field) => isFieldVisible(field)),
+    [config.fields, isFieldVisible]
+  )
+  const sections = useMemo(() => {
+    return visibleFields.reduce((acc, field) => {
+      const sectionName = field.section || 'General'
+      if (!acc[sectionName]) {
+        acc[sectionName] = []
+      }
+      acc[sectionName].push(field)
+      return acc
+    }, {} as Record<string, FormFieldType[]>)
+  }, [visibleFields])
+
+  // Wizard and tabs layouts: every visible section is a step/tab
+  // Sections whose fields are all hidden never appear in `sections`, so they are skipped
+  const isWizard = config.layout === 'wizard'
+  const isTabs = config.layout === 'tabs'
+  const isAccordion = config.layout === 'accordion'
+  const stepNames = useMemo(() => Object.keys(sections), [sections])
+  const activeStep = Math.min(currentStep, Math.max(stepNames.length - 1, 0))
+  const isLastStep = activeStep >= stepNames.length - 1
+
+  const goToStep = useCallback((step: number) => {
+    const nextStep = Math.max(0, Math.min(step, stepNames.length - 1))
+    setCurrentStep(nextStep)
+    if (isWizard && onStepChange && nextStep !== activeStep) {
+      onStepChange(nextStep, stepNames[nextStep])
+    }
+  }, [stepNames, activeStep, isWizard, onStepChange])
+
+  // Collapsible sections (accordion layout, or collapsibleSections outside wizard/tabs)
+  const canCollapseSections = !!(config.collapsibleSections && !isWizard && !isTabs) || isAccordion
+  const isSectionCollapsed = (sectionName: string): boolean =>
+    canCollapseSections && collapsedSections.has(sectionName)
+
+  // Number of invalid fields per visible section (shown as tab/accordion badges)
+  const sectionErrorCounts = useMemo(() => {
+    const errorKeys = Object.keys(displayedErrors)
+    const counts: Record<string, number> = {}
+    Object.entries(sections).forEach(([sectionName, fields]) => {
+      counts[sectionName] = errorKeys.filter((key) => fields.some((f) => isErrorForField(key, f))).length
+    })
+    return counts
+  }, [sections, displayedErrors])
+
+  // Show a section: switch step/tab, or expand it in an accordion
+  const openSection = (sectionName: string) => {
+    const index = stepNames.indexOf(sectionName)
+    if (index === -1) return
+    if (isWizard || isTabs) {
+      goToStep(index)
+    } else if (isAccordion) {
+      setCollapsedSections(new Set(allSectionNames.filter((name) => name !== sectionName)))
+    } else {
+      setCollapsedSections((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(sectionName)
+        return newSet
+      })
+    }
+  }
+  // Bring the first section with errors into view (tabs, accordion and wizard layouts)
+  const showFirstInvalidSection = (errorsByBinding: Record<string, string>) => {
+    const firstInvalidSection = stepNames.find((name) =>
+      Object.keys(errorsByBinding).some((key) => sections[name].some((f) => isErrorForField(key, f)))
+    )
+    if (firstInvalidSection) {
+      openSection(firstInvalidSection)
+    }
+  }
+
+  // Validate only the visible fields of one step
+  const validateStep = async (step: number): Promise<boolean> => {
+    const stepFields = sections[stepNames[step]] || []
+    const stepErrors = await validationEngine.validateForm({ fields: stepFields }, store, {
+      trigger: 'onSubmit',
+      isVisible,
+    })
+
+    setFormErrors((prev) => {
+      // Replace this step's previous errors (including nested List item errors)
+      const newErrors = { ...prev }
+      Object.keys(newErrors).forEach((key) => {
+        if (stepFields.some((f) => isErrorForField(key, f))) {
+          delete newErrors[key]
+        }
+      })
+      return { ...newErrors, ...stepErrors }
+    })
+    markTouched(Object.keys(stepErrors))
+    return Object.keys(stepErrors).length === 0
+  }
+
+  const handleNext = async () => {
+    if (await validateStep(activeStep)) {
+      goToStep(activeStep + 1)
+    }
+  }
+
+  const handleBack = () => {
+    goToStep(activeStep - 1)
+  }
+
+  const focusField = (bindingPath: string) => {
+    const field = findTopLevelField(config.fields, bindingPath)
+    if (!field) return
+    openSection(field.section || 'General')
+    setPendingFocus(bindingPath)
+  }
+
+  useEffect(() => {
+    if (!pendingFocus) return
+    const wrapper = Array.from(formRef.current?.querySelectorAll<HTMLElement>('[data-binding]') || [])
+      .find((element) => element.getAttribute('data-binding') === pendingFocus)
+    wrapper?.querySelector<HTMLElement>('input, select, textarea, button')?.focus()
+    setPendingFocus(null)
+  }, [pendingFocus])
+
+  // Validate for duplicate bindings (warn only, since duplicates are allowed)
+  useEffect(() => {
+    if (import.meta.env.DEV) {
+      const bindingCounts = new Map<string, number>()
+      config.fields.forEach((field) => {
+        const count = bindingCounts.get(field.binding) || 0
+        bindingCounts.set(field.binding, count + 1)
+      })
+
+      const duplicates = Array.from(bindingCounts.entries())
+        .filter(([_, count]) => count > 1)
+        .map(([binding]) => binding)
+
+      if (duplicates.length > 0) {
+        console.warn(
+          `[DynamicForm] Multiple fields share the same binding: ${duplicates.join(', ')}. ` +
+          `This is allowed but ensure field keys are unique (they are generated from section + fieldName + fieldType + binding + index).`
+        )
+      }
+    }
+  }, [config.fields])
+
+  const getFieldProps = (field: FormFieldType): FormFieldProps => {
+    let fieldValue = getNestedValue(store, field.binding)
+    let isLoadingListSource = false
+
+    if (field.fieldType === 'List') {
+      // For List fields, prioritize reading from binding (where edits are stored)
+      // Fall back to listSource only if binding is empty/undefined
+      fieldValue = resolveListItems(field, store)
+
+      // Check loading state for the list source
+      if (field.listSource) {
+        const [listSourceName] = field.listSource.split('.')
+        isLoadingListSource = loadingStates[listSourceName] || false
+      }
+
+      // Add $id to each item if not present (for React keys)
+      // Use stable IDs based on index to prevent re-renders
+      // Only add $id to List field data, not to option lists
+      if (Array.isArray(fieldValue) && fieldValue.length > 0) {
+        fieldValue = fieldValue.map((item: any, idx: number) => {
+          if (!item.$id) {
+            // Use a stable ID based on index and binding (or listSource as fallback)
+            const idSource = field.binding || field.listSource
+            return { ...item, $id: `list-${idSource}-${idx}` }
+          }
+          return item
+        })
+      }
+    }
+
+    return {
+      field: field.requiredWhen ? { ...field, required: isFieldRequired(field, store) } : field,
+      value: fieldValue,
+      onChange: (val) => handleFieldChange(field.binding, val),
+      onBlur: (val) => handleFieldBlur(field.binding, val),
+      error: displayedErrors[field.binding],
+      sourceData: store,
+      isLoadingSource: isLoadingListSource || loadingStates[field.optionsSource || ''],
+      isValidating: validatingFields.has(field.binding),
+      onFieldChange: handleFieldChange,
+      onFieldBlur: handleFieldBlur,
+      fieldErrors: displayedErrors,
+      isTouched: touchedFields.has(field.binding),
+      isDirty: dirtyFields.includes(field.binding),
+      validatingFields,
+      loadingStates,
+      onListItemsMove: handleListItemsMove,
+    }
+  }
+
+  const actions: DynamicFormActions = {
+    submit: submitForm,
+    reset: handleReset,
+    validate: async (paths?: string[]) => {
+      const validationErrors = paths ? await validatePaths(paths) : await validate()
+      markTouched(paths ? [...paths, ...Object.keys(validationErrors)] : Object.keys(validationErrors))
+      return validationErrors
+    },
+    getValues: () => store[dataSource] || {},
+    setValue: (bindingPath: string, value: any) => {
+      handleFieldChange(bindingPath, value)
+    },
+    setError: (bindingPath: string, message?: string) => {
+      setFormErrors((prev) => {
+        const newErrors = { ...prev }
+        if (message) {
+          newErrors[bindingPath] = message
+        } else {
+          delete newErrors[bindingPath]
+        }
+        return newErrors
+      })
+      if (message) {
+        markTouched([bindingPath])
+      }
+    },
+    focus: focusField,
+    retrySource,
+  }
+
+  return {
+    store,
+    loadingStates,
+    isLoading: !!loadingStates[dataSource] && Object.keys(store[dataSource] || {}).length === 0,
+    apiErrors: Object.values(errors),
+    clearSourceError: clearError,
+    errors: formErrors,
+    displayedErrors,
+    validatingFields,
+    submitStatus,
+    serverError,
+    isSubmitting,
+    touchedFields,
+    dirtyFields,
+    isDirty,
+    visibleFields,
+    sections,
+    sectionErrorCounts,
+    canCollapseSections,
+    isSectionCollapsed,
+    toggleSection,
+    stepNames,
+    activeStep,
+    isLastStep,
+    goToStep,
+    nextStep: handleNext,
+    previousStep: handleBack,
+    getFieldProps,
+    formRef,
+    handleSubmit,
+    actions,
+  }
+}
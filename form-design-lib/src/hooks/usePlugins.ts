@@ -0,0 +1,44 @@
+import { useMemo } from 'react'
+import { defaultFieldRegistry } from '../core/FieldRegistry'
+import { defaultValidationEngine } from '../core/ValidationEngine'
+import { defaultPayloadSerializer } from '../core/PayloadSerializer'
+import { defaultSourceAdapterRegistry } from '../core/SourceAdapterRegistry'
+import { PluginRegistry, copyPluginTargets } from '../core/PluginRegistry'
+import type { FormPlugin, PluginTargets } from '../core/PluginRegistry'
+
+/**
+ * Install plugins for one form without changing the shared registries.
+ * The base registries are copied and the plugins installed into the copies.
+ * Plugins are identified by name: the copies are rebuilt when the plugin names change.
+ *
+ * @param plugins - Plugins to install
+ * @param base - Registries to start from (default: the default field registry, validation engine, payload serializer and source adapters)
+ * @returns The registries to pass to the form (the base registries when there are no plugins)
+ * @throws Error if plugins conflict with each other or with the base registrations
+ *
+ * @example
+ * ```tsx
+ * const { fieldRegistry, validationEngine, payloadSerializer, sourceAdapters } = usePlugins([mapsPlugin])
+ * const form = useDynamicForm(config, apiProvider, { validationEngine, payloadSerializer, sourceAdapters })
+ *
+ * <FormRegistryProvider registry={fieldRegistry}>...</FormRegistryProvider>
+ * ```
+ */
+export function usePlugins(plugins: FormPlugin[] = [], base: Partial<PluginTargets> = {}): PluginTargets {
+  const {
+    fieldRegistry = defaultFieldRegistry,
+    validationEngine = defaultValidationEngine,
+    payloadSerializer = defaultPayloadSerializer,
+    sourceAdapters = defaultSourceAdapterRegistry,
+  } = base
+  const pluginNames = plugins.map((plugin) => plugin.name).join('|')
+
+  return useMemo(() => {
+    const baseTargets = { fieldRegistry, validationEngine, payloadSerializer, sourceAdapters }
+    if (plugins.length === 0) return baseTargets
+
+    const pluginRegistry = new PluginRegistry(copyPluginTargets(baseTargets))
+    pluginRegistry.installMany(plugins)
+    return pluginRegistry.getTargets()
+  }, [pluginNames, fieldRegistry, validationEngine, payloadSerializer, sourceAdapters])
+}
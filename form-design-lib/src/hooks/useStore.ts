@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
-import { FormConfig, ApiProvider } from '../types'
-import { getNestedValue } from '../utils/nestedValue'
+import { FormConfig, ApiProvider, FormContext, FormSource } from '../types'
 import { BindingResolver } from '../core/BindingResolver'
+import { ComputedFieldEngine, defaultComputedFieldEngine } from '../core/ComputedFieldEngine'
+import { SourceAdapterRegistry, defaultSourceAdapterRegistry } from '../core/SourceAdapterRegistry'
+import { SourceCache, defaultSourceCache } from '../core/SourceCache'
+import { SourceTransformer, defaultSourceTransformer } from '../core/SourceTransformer'
+import { createSourceGraph } from '../core/SourceGraph'
+import { CONTEXT_ROOTS, applyContextRoots, getContextRoots } from '../utils/formContext'
+import { getDataSourceName, getInitialSourceValue } from '../utils/dataSource'
 
 export interface ApiError {
   sourceName: string
@@ -10,6 +16,8 @@ export interface ApiError {
   error: unknown
   timestamp: number
   retryCount: number
+  // False for configuration errors a retry cannot fix (dependency cycles, unknown sources, failing transforms)
+  retryable?: boolean
 }
 
 export interface UseStoreReturn {
@@ -21,12 +29,29 @@ export interface UseStoreReturn {
   clearError: (sourceName: string) => void
 }
 
+// A source fetch that has not ended yet
+interface InFlightRequest {
+  controller: AbortController
+  signature: string
+  // Resolves when the request settled (data applied, failed or superseded)
+  done: Promise<void>
+}
+
 export interface UseStoreOptions {
   config: FormConfig
   apiProvider: ApiProvider
   maxRetries?: number
   retryDelay?: number
   onError?: (error: ApiError) => void
+  computedFieldEngine?: ComputedFieldEngine
+  // Adapters loading each source type (defaults to defaultSourceAdapterRegistry)
+  sourceAdapters?: SourceAdapterRegistry
+  // Cache shared with other forms (defaults to defaultSourceCache)
+  sourceCache?: SourceCache
+  // Applies source select and transforms (defaults to defaultSourceTransformer)
+  sourceTransformer?: SourceTransformer
+  // Route params, current user, tenant, ... exposed as read-only queryString.*, context.* and env.*
+  context?: FormContext
 }
 
 /**
@@ -46,28 +71,58 @@ export function useStore({
   apiProvider, 
   maxRetries = 3,
   retryDelay = 1000,
-  onError
+  onError,
+  computedFieldEngine = defaultComputedFieldEngine,
+  sourceAdapters = defaultSourceAdapterRegistry,
+  sourceCache = defaultSourceCache,
+  sourceTransformer = defaultSourceTransformer,
+  context,
 }: UseStoreOptions): UseStoreReturn {
-  const [store, setStore] = useState<Record<string, any>>({})
+  // Context roots only change when the context values do (not on every new context object)
+  const contextSignature = JSON.stringify(context ?? {})
+  const locationSearch = typeof window !== 'undefined' ? window.location.search : ''
+  const contextRoots = useMemo(() => getContextRoots(context), [contextSignature, locationSearch])
+  const contextRootsRef = useRef(contextRoots)
+  contextRootsRef.current = contextRoots
+
+  const [store, setRawStore] = useState<Record<string, any>>(() => ({ ...contextRoots }))
+
+  // Every store update keeps the context roots, so fields and sources cannot change them
+  const setStore = useCallback<React.Dispatch<React.SetStateAction<Record<string, any>>>>((action) => {
+    setRawStore((prev) => applyContextRoots(typeof action === 'function' ? action(prev) : action, contextRootsRef.current))
+  }, [])
   const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({})
   const [errors, setErrors] = useState<Record<string, ApiError>>({})
 
   // Use ref to track current store state for reading without causing re-renders
   const storeRef = useRef<Record<string, any>>(store)
   
+  // Resolvers waiting for the next store commit (dependent sources read the committed data)
+  const storeCommitsRef = useRef<Array<() => void>>([])
+
   // Update ref whenever store changes
   useEffect(() => {
     storeRef.current = store
+    const commits = storeCommitsRef.current
+    storeCommitsRef.current = []
+    commits.forEach((resolve) => resolve())
   }, [store])
 
   // To prevent infinite loops, we track the last params used to fetch a source
   const prevParamsRef = useRef<Record<string, string>>({})
+
+  // Signature of the last failed fetch per source: store changes do not fetch it again,
+  // only scheduled retries, manual retries, reloads or new parameters do
+  const failedParamsRef = useRef<Record<string, string>>({})
   
   // Track retry counts for each source
   const retryCountsRef = useRef<Record<string, number>>({})
 
-  // Track in-flight requests to prevent duplicate concurrent fetches
-  const inFlightRef = useRef<Set<string>>(new Set())
+  // Track in-flight requests to prevent duplicate concurrent fetches and cancel superseded ones
+  const inFlightRef = useRef<Map<string, InFlightRequest>>(new Map())
+
+  // Pending retries, cleared on unmount
+  const retryTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set())
 
   // Stabilize API provider reference to prevent unnecessary re-renders
   const api = useMemo(() => apiProvider, [apiProvider])
@@ -75,12 +130,21 @@ export function useStore({
   // Create BindingResolver instance (memoized for performance)
   const bindingResolver = useMemo(() => new BindingResolver(), [])
 
+  // Apply a changed context (dependent sources are re-checked by Effect 3)
+  useEffect(() => {
+    setStore((prev) => prev)
+  }, [contextRoots, setStore])
+
   // Effect 1: Initialize store structure based on sources
   // Only initialize if store is empty to avoid triggering Effect 3 unnecessarily
   useEffect(() => {
+    const dataSource = getDataSourceName(config)
     const initialStore: Record<string, any> = {}
     config.sources.forEach((source) => {
-      initialStore[source.sourceName] = source.sourceName === 'object' ? {} : []
+      if ((CONTEXT_ROOTS as readonly string[]).includes(source.sourceName)) {
+        console.warn(`[useStore] Source "${source.sourceName}" uses a reserved context root name and is never stored`)
+      }
+      initialStore[source.sourceName] = getInitialSourceValue(source.sourceName, dataSource)
     })
     setStore((prev) => {
       // Only update if store is empty or missing required keys
@@ -88,7 +152,60 @@ export function useStore({
         config.sources.some(source => !(source.sourceName in prev))
       return needsInit ? { ...initialStore, ...prev } : prev
     })
-  }, [config.sources])
+  }, [config.sources, config.dataSource])
+
+  // Dependencies between sources, from the binding paths they read
+  // Sources in a cycle or reading an unknown source are reported as source errors and never fetched
+  const { graph: sourceGraph, errors: sourceGraphErrors } = useMemo(() => {
+    const knownRoots = [
+      ...CONTEXT_ROOTS,
+      getDataSourceName(config),
+      ...config.fields.filter((field) => field.binding).map((field) => bindingResolver.parse(field.binding).rootSource),
+    ]
+    return createSourceGraph(config.sources, {
+      knownRoots,
+      getDependencies: (source) =>
+        sourceAdapters.get(source.sourceType)?.getDependencies?.(source) ?? Object.values(source.parameters || {}),
+    })
+  }, [config.sources, config.fields, config.dataSource, sourceAdapters, bindingResolver])
+
+  // Each graph error is reported once, not again when an equal graph is rebuilt (e.g., from an inline config)
+  const reportedGraphErrorsRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    const reported = reportedGraphErrorsRef.current
+    reportedGraphErrorsRef.current = new Set(sourceGraphErrors.map((error) => error.message))
+    const newErrors = sourceGraphErrors.filter((error) => !reported.has(error.message))
+    if (newErrors.length === 0) return
+
+    const graphErrors: Record<string, ApiError> = {}
+    newErrors.forEach((error) => {
+      console.error(`[useStore] ${error.message}`)
+      error.sourceNames.forEach((sourceName) => {
+        const source = config.sources.find((s) => s.sourceName === sourceName)
+        graphErrors[sourceName] = {
+          sourceName,
+          endpoint: source?.endpoint || '',
+          message: error.message,
+          error,
+          timestamp: Date.now(),
+          retryCount: 0,
+          retryable: false,
+        }
+        onError?.(graphErrors[sourceName])
+      })
+    })
+    setErrors((prev) => ({ ...prev, ...graphErrors }))
+  }, [sourceGraphErrors])
+
+  useEffect(() => {
+    if (config.debug) {
+      console.log(`[FormDebug] 🕸️  Source graph`, {
+        dependencies: sourceGraph.toJSON(),
+        levels: sourceGraph.getLevels(),
+        errors: sourceGraphErrors.map((error) => error.message),
+      })
+    }
+  }, [sourceGraph, sourceGraphErrors, config.debug])
 
   // Helper function to check and fetch sources
   // Extracted to avoid recreating on every render
@@ -97,44 +214,58 @@ export function useStore({
     const fetchStartTime = debug ? Date.now() : 0
     const fetchOrder: string[] = []
 
-    for (const source of config.sources) {
-      if (source.sourceType !== 'API') continue
-
-      let url = source.endpoint
-      let shouldFetch = true
-      const resolvedParams: Record<string, any> = {}
+    const fetchSource = async (source: FormSource): Promise<void> => {
+      const adapter = sourceAdapters.get(source.sourceType)
+      if (!adapter) {
+        console.warn(`[useStore] No adapter registered for source type "${source.sourceType}" (${source.sourceName})`)
+        return
+      }
 
-      // Resolve Parameters
+      // Resolve parameters (for API sources: endpoint placeholders, query, body and headers)
       // FIXED: Use storeRef.current instead of store to avoid dependency issues
-      if (source.parameters) {
-        Object.entries(source.parameters).forEach(([paramName, paramPath]) => {
-          const value = getNestedValue(storeRef.current, paramPath)
-          resolvedParams[paramName] = value
-
-          // If a required parameter is missing/undefined, we cannot fetch this source yet
-          if (value === undefined || value === null || value === '') {
-            shouldFetch = false
-          } else {
-            url = url.replace(`{${paramName}}`, value)
-            if (url.includes('{id}')) {
-              url = url.replace('{id}', value)
-            }
-          }
-        })
-      }
+      const fetchStore = storeRef.current
+      const request = adapter.resolve(source, fetchStore)
+      const { endpoint: url, params: resolvedParams } = request
 
-      if (!shouldFetch) {
+      if (!request.ready) {
         if (debug) {
           console.log(
             `[FormDebug] ⏸️  Skipping ${source.sourceName}: Missing required parameters`,
             source.parameters ? { parameters: resolvedParams } : ''
           )
         }
-        continue
+        return
+      }
+
+      const paramsSignature = request.signature
+
+      // Check if this source is already being fetched (prevent duplicate concurrent fetches)
+      const inFlight = inFlightRef.current.get(source.sourceName)
+      if (inFlight && inFlight.signature === paramsSignature) {
+        if (debug) {
+          console.log(
+            `[FormDebug] ⏳ Skipping ${source.sourceName}: Already in flight`,
+            { url }
+          )
+        }
+        // Sources reading this one wait for the request in flight
+        return inFlight.done
+      }
+
+      // Parameters changed while fetching: cancel so the outdated response is never applied
+      if (inFlight) {
+        if (debug) {
+          console.log(
+            `[FormDebug] 🛑 Cancelling ${source.sourceName}: Parameters changed`,
+            { url, paramsSignature }
+          )
+        }
+        inFlight.controller.abort()
+        inFlightRef.current.delete(source.sourceName)
+        setLoadingStates((prev) => ({ ...prev, [source.sourceName]: false }))
       }
 
       // Check cache signature
-      const paramsSignature = JSON.stringify({ url, ...resolvedParams })
       if (prevParamsRef.current[source.sourceName] === paramsSignature) {
         if (debug) {
           console.log(
@@ -142,22 +273,29 @@ export function useStore({
             { url, paramsSignature }
           )
         }
-        continue
+        return
       }
 
-      // Check if this source is already being fetched (prevent duplicate concurrent fetches)
-      if (inFlightRef.current.has(source.sourceName)) {
+      // Failed with these parameters: wait for the scheduled (or a manual) retry
+      if (failedParamsRef.current[source.sourceName] === paramsSignature) {
         if (debug) {
           console.log(
-            `[FormDebug] ⏳ Skipping ${source.sourceName}: Already in flight`,
-            { url }
+            `[FormDebug] ⛔ Skipping ${source.sourceName}: Failed, waiting for a retry`,
+            { url, paramsSignature }
           )
         }
-        continue
+        return
       }
 
       // Mark as in-flight
-      inFlightRef.current.add(source.sourceName)
+      const controller = new AbortController()
+      let settle = () => {}
+      const done = new Promise<void>((resolve) => {
+        settle = resolve
+      })
+      inFlightRef.current.set(source.sourceName, { controller, signature: paramsSignature, done })
+      // False once a newer request for this source started, or the form unmounted
+      const isLatest = () => inFlightRef.current.get(source.sourceName)?.controller === controller
 
       // Perform Fetch
       const fetchStart = debug ? Date.now() : 0
@@ -168,6 +306,7 @@ export function useStore({
           {
             order: fetchOrder.length,
             url,
+            sourceType: source.sourceType,
             parameters: Object.keys(resolvedParams).length > 0 ? resolvedParams : undefined,
             timestamp: new Date().toISOString(),
           }
@@ -184,7 +323,37 @@ export function useStore({
       })
 
       try {
-        const data = await api.call(url)
+        // Identical requests of other forms are shared, cached responses reused (source.cache)
+        const response = await sourceCache.fetch(
+          source,
+          request,
+          (signal) => adapter.fetch(source, { apiProvider: api, store: fetchStore, signal }),
+          controller.signal
+        )
+        // Only the latest response is ever applied
+        if (!isLatest()) return
+
+        // The cache keeps raw responses; each form shapes them with its own select and transforms
+        let data: any
+        try {
+          data = sourceTransformer.apply(source, response)
+        } catch (err) {
+          // A failing select or transform is a config error: fetching again gives the same result
+          console.error(`[useStore] Failed to apply select/transform of ${source.sourceName}:`, err)
+          const transformError: ApiError = {
+            sourceName: source.sourceName,
+            endpoint: url,
+            message: err instanceof Error ? err.message : 'Unknown error occurred',
+            error: err,
+            timestamp: Date.now(),
+            retryCount: 0,
+            retryable: false,
+          }
+          setErrors((prev) => ({ ...prev, [source.sourceName]: transformError }))
+          failedParamsRef.current[source.sourceName] = paramsSignature
+          onError?.(transformError)
+          return
+        }
         const fetchDuration = debug ? Date.now() - fetchStart : 0
 
         if (debug) {
@@ -203,41 +372,13 @@ export function useStore({
           )
         }
 
+        const committed = new Promise<void>((resolve) => storeCommitsRef.current.push(resolve))
         setStore((prev) => {
-          // Find the main object source name (typically 'object', but could be different)
-          // This is the source that stores form data (not option lists)
-          const mainObjectSourceName = config.sources.find(
-            (s) => s.sourceName === 'object' || (s.sourceType === 'API' && !s.parameters)
-          )?.sourceName || 'object'
-
-          if (source.sourceName === mainObjectSourceName) {
-            // Check if there are List fields that need property mapping
-            // If API returns data with a property that should be mapped to a List field binding
-            const mappedData = { ...data }
-            
-            // Find List fields that use this source or need property mapping
-            config.fields.forEach((field) => {
-              if (field.fieldType === 'List' && field.binding && field.binding.startsWith(`${mainObjectSourceName}.`)) {
-                // Extract the relative path from binding (e.g., "userExperience" from "object.userExperience")
-                // or "userExperience[0].subItems" for nested lists
-                const relativePath = field.binding.replace(`${mainObjectSourceName}.`, '')
-                
-                // Check if the API data has a property that matches the listSource name
-                // but should be mapped to the binding property name
-                if (field.listSource && data[field.listSource] && Array.isArray(data[field.listSource])) {
-                  // For top-level properties, map directly
-                  // For nested paths, we'll handle them differently
-                  if (!relativePath.includes('[')) {
-                    // Simple top-level property mapping
-                    mappedData[relativePath] = data[field.listSource]
-                    // Remove the original property to avoid duplication
-                    delete mappedData[field.listSource]
-                  }
-                }
-              }
-            })
-            
-            return { ...prev, [source.sourceName]: { ...prev[source.sourceName], ...mappedData } }
+          // The data source is merged into the existing form data; other sources replace their value
+          const dataSource = getDataSourceName(config)
+
+          if (source.sourceName === dataSource) {
+            return { ...prev, [source.sourceName]: { ...prev[source.sourceName], ...data } }
           }
           // For other sources, store the data directly
           // Note: $id will be added by DynamicForm for List fields only, not for option lists
@@ -247,25 +388,17 @@ export function useStore({
           // If so, sync the data to the binding path (supports nested paths)
           config.fields.forEach((field) => {
             if (field.fieldType === 'List' && field.listSource === source.sourceName && field.binding) {
-              // Get the array data (handle both direct array and object with array property)
-              let arrayData = data
-              if (data && typeof data === 'object' && !Array.isArray(data)) {
-                // If it's an object, find the array property
-                const arrayKey = Object.keys(data).find(key => Array.isArray(data[key]))
-                arrayData = arrayKey ? data[arrayKey] : []
-              }
-              
-              // Only sync if we have valid array data
-              if (Array.isArray(arrayData) && arrayData.length > 0) {
+              // Only arrays are synced: responses wrapping the items declare them with source.select
+              if (Array.isArray(data) && data.length > 0) {
                 // Use BindingResolver to set the value at the binding path
                 // This handles all path parsing and nested updates automatically
                 const bindingPath = field.binding
                 const parsed = bindingResolver.parse(bindingPath)
                 
-                // Only sync if the root source exists in the store or is the main object source
-                if (parsed.rootSource in newStore || parsed.rootSource === mainObjectSourceName) {
+                // Only sync if the root source exists in the store or is the data source
+                if (parsed.rootSource in newStore || parsed.rootSource === dataSource) {
                   // Use BindingResolver.set to handle nested paths (supports arbitrary depth)
-                  newStore = bindingResolver.set(bindingPath, arrayData, newStore)
+                  newStore = bindingResolver.set(bindingPath, data, newStore)
                 }
               }
             }
@@ -275,8 +408,15 @@ export function useStore({
         })
 
         prevParamsRef.current[source.sourceName] = paramsSignature
+        delete failedParamsRef.current[source.sourceName]
         retryCountsRef.current[source.sourceName] = 0 // Reset retry count on success
+
+        // Sources reading this one start once its data is in the store
+        await committed
       } catch (err) {
+        // Cancelled or superseded requests are not errors
+        if (!isLatest()) return
+
         const fetchDuration = debug ? Date.now() - fetchStart : 0
         const currentRetryCount = retryCountsRef.current[source.sourceName] || 0
 
@@ -305,6 +445,7 @@ export function useStore({
 
         // Store the error
         setErrors((prev) => ({ ...prev, [source.sourceName]: apiError }))
+        failedParamsRef.current[source.sourceName] = paramsSignature
 
         // Call error callback if provided
         if (onError) {
@@ -319,26 +460,41 @@ export function useStore({
           const delay = retryDelay * Math.pow(2, currentRetryCount)
           
           // Schedule retry - clear cache signature to force re-fetch
-          setTimeout(() => {
-            // Clear the cache signature to force a re-fetch
+          const retryTimer = setTimeout(() => {
+            retryTimersRef.current.delete(retryTimer)
+            // Clear the cache and failed signatures to force a re-fetch
             delete prevParamsRef.current[source.sourceName]
-            // Remove from in-flight so retry can proceed
-            inFlightRef.current.delete(source.sourceName)
+            delete failedParamsRef.current[source.sourceName]
             // Trigger re-fetch
             checkAndFetchSources()
           }, delay)
+          retryTimersRef.current.add(retryTimer)
         } else {
           // Max retries reached, log error
           console.error(`Failed to load ${source.sourceName} after ${maxRetries} retries`, err)
           retryCountsRef.current[source.sourceName] = 0 // Reset for manual retry
         }
       } finally {
-        // Remove from in-flight when done (success or error)
-        inFlightRef.current.delete(source.sourceName)
-        setLoadingStates((prev) => ({ ...prev, [source.sourceName]: false }))
+        // Remove from in-flight when done (success or error), unless a newer request took over
+        if (isLatest()) {
+          inFlightRef.current.delete(source.sourceName)
+          setLoadingStates((prev) => ({ ...prev, [source.sourceName]: false }))
+        }
+        settle()
       }
     }
 
+    // Independent sources load in parallel; a source starts once the sources it reads have settled
+    const settled = new Map<string, Promise<void>>()
+    sourceGraph.getOrder().forEach((source) => {
+      const inputs = sourceGraph.getDependencies(source.sourceName).map((name) => settled.get(name))
+      settled.set(
+        source.sourceName,
+        inputs.length === 0 ? fetchSource(source) : Promise.all(inputs).then(() => fetchSource(source))
+      )
+    })
+    await Promise.all(settled.values())
+
     // Log fetch summary if debug is enabled
     if (debug && fetchOrder.length > 0) {
       const totalDuration = Date.now() - fetchStartTime
@@ -352,7 +508,7 @@ export function useStore({
         }
       )
     }
-  }, [config.sources, config.fields, config.debug, api, maxRetries, retryDelay, onError, bindingResolver])
+  }, [config.sources, config.fields, config.dataSource, config.debug, api, maxRetries, retryDelay, onError, bindingResolver, sourceAdapters, sourceCache, sourceTransformer, sourceGraph])
 
   // Effect 2: Data Source Engine - Initial fetch when config changes
   // FIXED: Removed 'store' from dependencies to prevent infinite loops
@@ -364,45 +520,24 @@ export function useStore({
   // This effect runs when store changes, but uses refs to avoid infinite loops
   // IMPROVED: Only re-check if dependent source parameters actually changed
   useEffect(() => {
-    // Only re-check sources that have parameters (dependent sources)
-    const dependentSources = config.sources.filter(
-      (source) => source.sourceType === 'API' && source.parameters
-    )
-
-    if (dependentSources.length === 0) return
-
-    // Check if any dependent source actually needs to be re-fetched
-    // by checking if their parameters have changed from the cached signature
+    // Check if any source actually needs to be re-fetched
+    // by checking if its signature (parameters, computed inputs, ...) changed from the cached one
     let needsRefetch = false
-    for (const source of dependentSources) {
-      if (!source.parameters) continue
-      
-      // Build current signature
-      let url = source.endpoint
-      const resolvedParams: Record<string, any> = {}
-      let allParamsResolved = true
-      
-      for (const [paramName, paramPath] of Object.entries(source.parameters)) {
-        const value = getNestedValue(storeRef.current, paramPath)
-        resolvedParams[paramName] = value
-        if (value === undefined || value === null || value === '') {
-          allParamsResolved = false
-          break
-        } else {
-          url = url.replace(`{${paramName}}`, value)
-          if (url.includes('{id}')) {
-            url = url.replace('{id}', value)
-          }
-        }
-      }
-      
+    for (const source of sourceGraph.getOrder()) {
+      const adapter = sourceAdapters.get(source.sourceType)
+      if (!adapter) continue
+
       // Only check if all parameters are resolved
-      if (allParamsResolved) {
-        const currentSignature = JSON.stringify({ url, ...resolvedParams })
-        const prevSignature = prevParamsRef.current[source.sourceName]
-        
-        // If signature changed and source is not in-flight, we need to refetch
-        if (prevSignature !== currentSignature && !inFlightRef.current.has(source.sourceName)) {
+      const request = adapter.resolve(source, storeRef.current)
+      if (request.ready) {
+        // Compare with the request in flight, otherwise with the last fetched signature
+        const inFlight = inFlightRef.current.get(source.sourceName)
+        const prevSignature = inFlight ? inFlight.signature : prevParamsRef.current[source.sourceName]
+        // A failed fetch is only repeated by its retry, unless the parameters change
+        const hasFailed = !inFlight && failedParamsRef.current[source.sourceName] === request.signature
+
+        // If signature changed, we need to refetch (cancelling an outdated request in flight)
+        if (prevSignature !== request.signature && !hasFailed) {
           needsRefetch = true
           break
         }
@@ -417,15 +552,89 @@ export function useStore({
     }, 100)
 
     return () => clearTimeout(timeoutId)
-  }, [store, checkAndFetchSources])
+  }, [store, checkAndFetchSources, sourceGraph, sourceAdapters])
+
+  // Reload sources invalidated (or revalidated in the background) in the source cache
+  useEffect(() => {
+    return sourceCache.subscribe((names) => {
+      const reloaded = config.sources.filter(
+        (source) => names.includes(source.sourceName) || (!!source.cache?.key && names.includes(source.cache.key))
+      )
+      if (reloaded.length === 0) return
+
+      // Clear the cache and failed signatures to force a re-fetch
+      reloaded.forEach((source) => {
+        delete prevParamsRef.current[source.sourceName]
+        delete failedParamsRef.current[source.sourceName]
+      })
+      checkAndFetchSources()
+    })
+  }, [sourceCache, config.sources, checkAndFetchSources])
+
+  // Abort all in-flight requests and pending retries on unmount
+  useEffect(() => {
+    const inFlight = inFlightRef.current
+    const retryTimers = retryTimersRef.current
+    return () => {
+      inFlight.forEach(({ controller }) => controller.abort())
+      inFlight.clear()
+      retryTimers.forEach((retryTimer) => clearTimeout(retryTimer))
+      retryTimers.clear()
+    }
+  }, [])
+
+  // Reload sources whose adapter reports an outside change (URL, storage, ...)
+  useEffect(() => {
+    const unsubscribes = config.sources.map((source) => {
+      const adapter = sourceAdapters.get(source.sourceType)
+      if (!adapter?.subscribe) return undefined
+      return adapter.subscribe(source, () => {
+        // Clear the cache and failed signatures to force a re-fetch
+        delete prevParamsRef.current[source.sourceName]
+        delete failedParamsRef.current[source.sourceName]
+        checkAndFetchSources()
+      })
+    })
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe?.())
+  }, [config.sources, sourceAdapters, checkAndFetchSources])
+
+  // Computed fields in evaluation order (a cycle disables computation instead of breaking the form)
+  const computedFields = useMemo(() => {
+    try {
+      return computedFieldEngine.sortFields(config.fields)
+    } catch (error) {
+      console.error('[useStore] Computed fields disabled:', error)
+      return []
+    }
+  }, [config.fields, computedFieldEngine])
+
+  // Last input and value signature per computed binding, so unchanged fields are not recomputed
+  const computedInputsRef = useRef<Map<string, string>>(new Map())
+
+  useEffect(() => {
+    computedInputsRef.current = new Map()
+  }, [computedFields])
+
+  // Effect 4: Recompute computed fields when their inputs change
+  // apply() returns the same store instance when nothing changed, which ends the update cycle.
+  // It runs on the latest store so source merges queued since this render are kept
+  useEffect(() => {
+    if (computedFields.length === 0) return
+    setStore((prev) => computedFieldEngine.apply(computedFields, prev, computedInputsRef.current))
+  }, [store, computedFields, computedFieldEngine])
 
   // Manual retry function
   const retrySource = useCallback(async (sourceName: string) => {
     const source = config.sources.find((s) => s.sourceName === sourceName)
-    if (!source || source.sourceType !== 'API') return
+    if (!source || !sourceAdapters.has(source.sourceType)) return
+    // Sources left out of the graph (cycles, unknown sources) keep their error until the config is fixed
+    if (!sourceGraph.getOrder().includes(source)) return
 
-    // Reset retry count for manual retry
+    // Reset retry count for manual retry, and forget the last parameters so a loaded source reloads too
     retryCountsRef.current[sourceName] = 0
+    delete failedParamsRef.current[sourceName]
+    delete prevParamsRef.current[sourceName]
     
     // Clear error
     setErrors((prev) => {
@@ -435,8 +644,8 @@ export function useStore({
     })
 
     // Trigger fetch
-      await checkAndFetchSources()
-    }, [checkAndFetchSources, config.sources])
+    await checkAndFetchSources()
+  }, [checkAndFetchSources, config.sources, sourceAdapters, sourceGraph])
 
   // Clear error function
   const clearError = useCallback((sourceName: string) => {
@@ -2,11 +2,20 @@
 export type {
   FieldType,
   SourceType,
+  FormLayout,
   ValidationTrigger,
   FormSource,
+  HttpMethod,
   FormConfig,
   ApiProvider,
+  ApiRequestOptions,
+  FormContext,
+  SourceCacheConfig,
+  SourceTransformConfig,
+  SubmitConfig,
   ValidationFunction,
+  ExpressionValidation,
+  ComputeConfig,
 } from './types'
 // Note: FormField type is not exported here to avoid conflict with FormField component
 // Import the type directly: import type { FormField } from 'form-design-lib/types'
@@ -16,23 +25,83 @@ export type {
 export { FormField } from './components/FormField'
 export type { FormFieldProps } from './components/FormField'
 export { DynamicForm } from './components/DynamicForm'
-export type { DynamicFormProps } from './components/DynamicForm'
+export type { DynamicFormProps, DynamicFormHandle } from './components/DynamicForm'
+export { FormRegistryProvider, useFieldRegistry } from './components/FormRegistryProvider'
+export type { FormRegistryProviderProps } from './components/FormRegistryProvider'
 export { ErrorBoundary } from './components/ErrorBoundary'
 export { LoaderIcon, AlertCircleIcon, SaveIcon, CheckCircleIcon, RefreshIcon } from './components/Icons'
 
 // Hooks
-export { useStore } from './hooks'
-export type { UseStoreReturn, UseStoreOptions, ApiError } from './hooks'
+export { useStore, useDynamicForm, usePlugins } from './hooks'
+export type {
+  UseStoreReturn,
+  UseStoreOptions,
+  ApiError,
+  UseDynamicFormOptions,
+  UseDynamicFormReturn,
+  DynamicFormActions,
+} from './hooks'
 
 // Utilities
 export { getNestedValue, setNestedValue } from './utils/nestedValue'
+export { isFieldVisible, isFieldRequired } from './utils/visibility'
+export { getFieldOptions, isOptionAvailable } from './utils/options'
+export { getResetTriggers, getFieldsToReset } from './utils/dependentFields'
+export { buildSourceRequest, resolveTemplate, appendQuery } from './utils/sourceRequest'
+export type { SourceRequest } from './utils/sourceRequest'
+export { buildSubmitPayload, buildSubmitRequest } from './utils/submit'
+export { DEFAULT_DATA_SOURCE, getDataSourceName } from './utils/dataSource'
+export { isDeepEqual, getDirtyFields, getTrackedValue, findTopLevelField } from './utils/formState'
+export { CONTEXT_ROOTS, getContextRoots, parseQueryString } from './utils/formContext'
+export type { SubmitRequest } from './utils/submit'
 
 // Core Abstractions
 export { BindingResolver, defaultBindingResolver } from './core/BindingResolver'
 export type { BindingStrategy, ParsedPath } from './core/binding/strategies/BindingStrategy'
 export { FieldRegistry, defaultFieldRegistry } from './core/FieldRegistry'
-export type { BaseFieldProps, FieldComponent } from './core/FieldRegistry'
+export type {
+  BaseFieldProps,
+  FieldComponent,
+  FieldTypeMeta,
+  FieldPropertyMeta,
+  FieldPropertyType,
+  FieldValueType,
+} from './core/FieldRegistry'
+export { builtInFieldMeta, commonFieldProperties } from './core/builtInFieldMeta'
+export { PluginRegistry, defaultPluginRegistry, copyPluginTargets, getPluginKey } from './core/PluginRegistry'
+export type { FormPlugin, PluginTargets } from './core/PluginRegistry'
+export { SourceAdapterRegistry, defaultSourceAdapterRegistry } from './core/SourceAdapterRegistry'
+export type { SourceAdapter, ResolvedSource, SourceFetchContext } from './core/SourceAdapterRegistry'
+export { SourceCache, defaultSourceCache, invalidateSource, getSourceCacheKey } from './core/SourceCache'
+export { SourceGraph, SourceGraphError, createSourceGraph } from './core/SourceGraph'
+export type { SourceGraphOptions } from './core/SourceGraph'
+export { SourceTransformer, defaultSourceTransformer } from './core/SourceTransformer'
+export type { SourceTransform, SourceTransformContext } from './core/SourceTransformer'
+export { builtInSourceTransforms } from './core/sourceTransforms'
+export {
+  builtInSourceAdapters,
+  apiSourceAdapter,
+  staticSourceAdapter,
+  queryStringSourceAdapter,
+  localStorageSourceAdapter,
+  computedSourceAdapter,
+} from './core/sourceAdapters'
 export { initializeFieldRegistry, ensureInitialized } from './core/fieldRegistrySetup'
+export { ValidationEngine, defaultValidationEngine, isEmptyValue } from './core/ValidationEngine'
+export type { ValidationRule, ValidateFormOptions } from './core/ValidationEngine'
+export { builtInValidationRules } from './core/validationRules'
+export { ExpressionEvaluator, defaultExpressionEvaluator } from './core/ExpressionEvaluator'
+export type { ExpressionFunction } from './core/ExpressionEvaluator'
+export { ExpressionError, parseExpression } from './core/expression/ExpressionParser'
+export type { ExpressionNode } from './core/expression/ExpressionParser'
+export { ComputedFieldEngine, defaultComputedFieldEngine } from './core/ComputedFieldEngine'
+export type { ComputeFunction } from './core/ComputedFieldEngine'
+export { ServerErrorMapper, defaultServerErrorMapper, toBindingPath } from './core/ServerErrorMapper'
+export type { ServerErrorFormat, ServerErrorResult, MapServerErrorOptions } from './core/ServerErrorMapper'
+export { builtInServerErrorFormats } from './core/serverErrorFormats'
+export { PayloadSerializer, defaultPayloadSerializer } from './core/PayloadSerializer'
+export type { OutputTransform, SerializeOptions } from './core/PayloadSerializer'
+export { builtInOutputTransforms } from './core/outputTransforms'
 
 // Styles
 import './style.css'
@@ -17,15 +17,48 @@ export type FieldType =
   | 'DateRange'
   | 'List'
 
-export type SourceType = 'API'
+// Built-in source types; custom types can be registered with a SourceAdapterRegistry
+export type SourceType = 'API' | 'Static' | 'QueryString' | 'LocalStorage' | 'Computed' | (string & {})
+
+export type FormLayout = 'sections' | 'wizard' | 'tabs' | 'accordion'
 
 export type ValidationTrigger = 'onChange' | 'onBlur' | 'onSubmit'
 
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * Response caching of a source, shared by all forms using the same SourceCache
+ */
+export interface SourceCacheConfig {
+  ttl?: number // Milliseconds a response is reused without fetching again (default: 0)
+  staleWhileRevalidate?: number // Milliseconds after ttl the stale response is still used while it is fetched again in the background (default: 0)
+  key?: string // Cache key shared by sources of different forms (default: source type and endpoint)
+}
+
+/**
+ * A named source transform and its options
+ * @example { name: 'sortBy', key: 'label' }
+ */
+export interface SourceTransformConfig {
+  name: string // Registered transform name (e.g., 'map', 'filter', 'sortBy', 'rename')
+  [option: string]: any
+}
+
 export interface FormSource {
   sourceName: string
   sourceType: SourceType
-  endpoint: string
-  parameters?: Record<string, string>
+  endpoint?: string // API: "{param}" placeholders are replaced with URL-encoded parameter values
+  parameters?: Record<string, string> // Parameter name -> binding path (e.g., { countryCode: 'object.country' })
+  method?: HttpMethod // HTTP method (default: 'GET')
+  body?: any // Request body template; "{param}" placeholders are resolved from parameters
+  headers?: Record<string, string> // Request headers; values may contain "{param}" placeholders
+  query?: Record<string, any> // Query parameters (URL-encoded, empty values skipped); values may contain "{param}" placeholders
+  data?: any // Static: the source data (e.g., inline options)
+  storageKey?: string // LocalStorage: key of the stored value (default: the source name)
+  expression?: string // Computed: expression evaluated against the store (e.g., "object.items")
+  cache?: SourceCacheConfig // Reuse responses across forms (identical concurrent requests are always shared)
+  select?: string // Path or expression picking the data from the response (e.g., "data.items"); the whole response is available as `response`
+  transform?: Array<string | SourceTransformConfig> // Transforms applied in order after select (names or { name, ...options })
 }
 
 /**
@@ -52,6 +85,26 @@ export type VisibilityCondition = (
   field: FormField
 ) => boolean
 
+/**
+ * Serializable validation check
+ * `expression` is evaluated with the field value available as `value`;
+ * the field is invalid (with `message`) when it evaluates to a falsy result.
+ * @example { expression: "len(value) >= 3 || value == 'N/A'", message: 'Too short' }
+ */
+export interface ExpressionValidation {
+  expression: string
+  message: string
+}
+
+/**
+ * Computed value backed by a registered compute function (see ComputedFieldEngine)
+ * @example { function: 'age', dependsOn: ['object.birthDate'] }
+ */
+export interface ComputeConfig {
+  function: string // Name of a function registered with ComputedFieldEngine.registerFunction
+  dependsOn: string[] // Binding paths the function reads; the value is recomputed when they change
+}
+
 export interface FormField {
   section?: string
   fieldName: string
@@ -66,6 +119,7 @@ export interface FormField {
   displayProperty?: string
   valueProperty?: string
   optionsSource?: string
+  optionsFilter?: string // Expression evaluated per option (as `option`); options are kept while it is truthy
   // For Radio fields - inline or vertical layout
   radioLayout?: 'inline' | 'vertical'
   // For File fields
@@ -77,6 +131,17 @@ export interface FormField {
   // Validation improvements
   validateOn?: ValidationTrigger[] // When to trigger validation (default: ['onSubmit'])
   customValidator?: ValidationFunction // Custom validation function
+  validations?: ExpressionValidation[] // Serializable expression checks (see ExpressionEvaluator)
+  requiredWhen?: string // Expression - field is required while it evaluates truthy
+  // Computed fields - value is derived from other store values and rendered read-only
+  compute?: string | ComputeConfig // Expression (e.g., "object.price * object.quantity") or registered function
+  readOnly?: boolean // Render the field without allowing edits
+  // Dependent fields - cleared when a parent value changes
+  // Fields are also reset when a parameter of their optionsSource changes (e.g., state when country changes)
+  resetOn?: string[] // Binding paths that reset this field when their value changes
+  resetValue?: any // Value applied on reset (default: the field type's empty value)
+  // Submitted value - a registered output transform ('isoDate', 'epoch', 'string', 'number', 'fileMetadata') or a function
+  output?: string | ((value: any, field: FormField) => any)
   // Configurable error messages
   errorMessages?: {
     required?: string
@@ -87,6 +152,9 @@ export interface FormField {
     max?: string
     minDate?: string
     maxDate?: string
+    minItems?: string
+    maxItems?: string
+    invalidOption?: string
     custom?: string
   }
   // Date validation
@@ -97,12 +165,13 @@ export interface FormField {
   max?: number
   // Conditional visibility
   visible?: boolean | VisibilityCondition // Field visibility condition
+  visibleWhen?: string // Expression - field is visible while it evaluates truthy (e.g., "object.age >= 18")
   // Field dependencies - show/hide based on other field values
   dependsOn?: {
     field: string // Binding path of the field this depends on
     value?: any // Show when this value matches (exact match)
     values?: any[] // Show when value is in this array
-    condition?: (value: any) => boolean // Custom condition function
+    condition?: ((value: any) => boolean) | string // Custom condition function, or expression with `value` in scope
   }
   // For List fields
   listSource?: string // Source name or path to get array data (e.g., "experienceList" or "experienceList.userExperience")
@@ -112,6 +181,27 @@ export interface FormField {
   maxItems?: number // Maximum number of items allowed
 }
 
+/**
+ * Config-driven form submission executed through the ApiProvider
+ * @example
+ * {
+ *   endpoint: '/api/users/{id}',
+ *   method: 'PUT',
+ *   parameters: { id: 'object.id' },
+ *   payload: { username: 'object.username', 'address.country': 'object.country' },
+ * }
+ */
+export interface SubmitConfig {
+  endpoint: string // "{param}" placeholders are replaced with URL-encoded parameter values
+  method?: 'POST' | 'PUT' | 'PATCH' // Default: 'POST'
+  parameters?: Record<string, string> // Parameter name -> binding path
+  headers?: Record<string, string> // Request headers; values may contain "{param}" placeholders
+  payload?: Record<string, string> // Payload property (dot notation) -> binding path; default: the `dataSource` data as serialized by the PayloadSerializer
+  successMessage?: string // Shown after a successful submit (default: 'Saved Successfully')
+  errorMessage?: string // Shown when the request fails (default: 'Submission Failed')
+  resetOnSuccess?: boolean // Reset the form to its initial values after a successful submit
+}
+
 export interface FormConfig {
   formName: string
   gridSize: number
@@ -122,6 +212,21 @@ export interface FormConfig {
   storageKey?: string // Custom storage key (default: form-{formName})
   collapsibleSections?: boolean // Enable collapsible sections
   defaultSectionState?: 'expanded' | 'collapsed' // Default state for sections
+  /**
+   * How sections are laid out (default: 'sections' - all sections stacked)
+   * 'wizard' turns each visible section into a step with next/back navigation
+   * 'tabs' shows one section per tab, 'accordion' expands one section at a time
+   */
+  layout?: FormLayout
+  /**
+   * Submit the form through the ApiProvider (ignored when DynamicForm receives an onSubmit prop)
+   */
+  submit?: SubmitConfig
+  /**
+   * Source holding the form data: loaded into the form, persisted, reset and submitted (default: 'object')
+   * Other sources only provide options and lookups.
+   */
+  dataSource?: string
   /**
    * Enable debug logging for data fetching operations
    * When enabled, logs fetch order, timing, and details to console
@@ -129,6 +234,26 @@ export interface FormConfig {
   debug?: boolean
 }
 
+/**
+ * Values from outside the form (route params, current user, tenant, feature flags)
+ * Exposed as read-only store roots for bindings, expressions and source parameters:
+ * `queryString.*`, `env.*`, and `context.*` for every other key.
+ */
+export interface FormContext {
+  queryString?: Record<string, any> // Route/URL parameters (default: the query string of the page)
+  env?: Record<string, any> // Environment values (e.g., API base URL, feature flags)
+  [key: string]: any // Application values (e.g., user, tenant), read as context.user.id
+}
+
+/**
+ * Extra request details passed to ApiProvider.call
+ */
+export interface ApiRequestOptions {
+  body?: any // Request body (typically serialized as JSON by the provider)
+  headers?: Record<string, string>
+  signal?: AbortSignal // Aborted when a source request is superseded or the form unmounts (pass it to fetch)
+}
+
 export interface ApiProvider {
-  call: (endpoint: string, method?: string) => Promise<any>
+  call: (endpoint: string, method?: string, options?: ApiRequestOptions) => Promise<any>
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { getFieldsToReset, getResetTriggers } from '../dependentFields'
+import type { FormField, FormSource } from '../../types'
+
+describe('dependentFields', () => {
+  const sources: FormSource[] = [
+    { sourceName: 'object', sourceType: 'API', endpoint: '/api/user' },
+    { sourceName: 'states', sourceType: 'API', endpoint: '/api/states?country={countryCode}', parameters: { countryCode: 'object.country' } },
+  ]
+  const country: FormField = { fieldName: 'Country', fieldType: 'Dropdown', binding: 'object.country' }
+  const state: FormField = { fieldName: 'State', fieldType: 'Dropdown', binding: 'object.state', optionsSource: 'states' }
+  const city: FormField = { fieldName: 'City', fieldType: 'Text', binding: 'object.city', resetOn: ['object.state'] }
+  const name: FormField = { fieldName: 'Name', fieldType: 'Text', binding: 'object.name' }
+
+  it('should combine resetOn with optionsSource parameters', () => {
+    expect(getResetTriggers(state, sources)).toEqual(['object.country'])
+    expect(getResetTriggers({ ...state, resetOn: ['object.region'] }, sources)).toEqual(['object.region', 'object.country'])
+    expect(getResetTriggers(name, sources)).toEqual([])
+  })
+
+  it('should cascade resets through dependent fields', () => {
+    const fields = [country, state, city, name]
+
+    expect(getFieldsToReset(fields, sources, 'object.country')).toEqual([state, city])
+    expect(getFieldsToReset(fields, sources, 'object.state')).toEqual([city])
+    expect(getFieldsToReset(fields, sources, 'object.name')).toEqual([])
+  })
+
+  it('should match parent and child paths', () => {
+    const zip: FormField = { fieldName: 'Zip', fieldType: 'Text', binding: 'object.zip', resetOn: ['object.address.country'] }
+
+    expect(getFieldsToReset([zip], sources, 'object.address')).toEqual([zip])
+  })
+})
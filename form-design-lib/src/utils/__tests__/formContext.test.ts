@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { applyContextRoots, getContextRoots, parseQueryString } from '../formContext'
+
+describe('formContext', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('should parse repeated query parameters as arrays', () => {
+    expect(parseQueryString('?ref=mail&tag=a&tag=b')).toEqual({ ref: 'mail', tag: ['a', 'b'] })
+    expect(parseQueryString('')).toEqual({})
+  })
+
+  it('should split the context into queryString, env and context roots', () => {
+    const roots = getContextRoots({
+      queryString: { userId: '42' },
+      env: { apiUrl: 'https://api.example.com' },
+      user: { id: 7 },
+      tenant: 'acme',
+    })
+
+    expect(roots).toEqual({
+      queryString: { userId: '42' },
+      env: { apiUrl: 'https://api.example.com' },
+      context: { user: { id: 7 }, tenant: 'acme' },
+    })
+  })
+
+  it('should default queryString to the page URL parameters', () => {
+    window.history.replaceState(null, '', '/?userId=123')
+
+    expect(getContextRoots().queryString).toEqual({ userId: '123' })
+    expect(getContextRoots().env).toEqual({})
+  })
+
+  it('should restore changed roots and keep unchanged stores', () => {
+    const roots = getContextRoots({ queryString: {}, tenant: 'acme' })
+    const store = { ...roots, object: { name: 'Ada' } }
+
+    expect(applyContextRoots(store, roots)).toBe(store)
+
+    const changed = applyContextRoots({ ...store, context: { tenant: 'other' } }, roots)
+    expect(changed.context).toBe(roots.context)
+    expect(changed.object).toEqual({ name: 'Ada' })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { findTopLevelField, getDirtyFields, isDeepEqual } from '../formState'
+import type { FormField } from '../../types'
+
+describe('formState', () => {
+  const username: FormField = { fieldName: 'Username', fieldType: 'Text', binding: 'object.username' }
+  const experience: FormField = {
+    fieldName: 'Experience',
+    fieldType: 'List',
+    binding: 'object.userExperience',
+    itemObject: 'experienceItem',
+    fields: [{ fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' }],
+  }
+  const fields = [username, experience]
+
+  it('should compare values deeply, ignoring internal keys and empty differences', () => {
+    expect(isDeepEqual({ a: [{ $id: '1', b: 1 }] }, { a: [{ $id: '2', b: 1 }] })).toBe(true)
+    expect(isDeepEqual({ a: '' }, { a: undefined })).toBe(true)
+    expect(isDeepEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false)
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false)
+  })
+
+  it('should report fields whose values differ from the initial store', () => {
+    const initialStore = { object: { username: 'jdoe', userExperience: [] } }
+
+    expect(getDirtyFields(fields, initialStore, initialStore)).toEqual([])
+    expect(getDirtyFields(fields, { object: { username: 'changed', userExperience: [] } }, initialStore)).toEqual([
+      'object.username',
+    ])
+    // Empty values are equal whatever their type
+    expect(getDirtyFields(fields, { object: { username: 'jdoe', userExperience: [] } }, { object: { username: 'jdoe' } })).toEqual([])
+  })
+
+  it('should report edited List items by indexed binding', () => {
+    const initialStore = { object: { userExperience: [{ $id: 'a', employer: 'Acme' }, { $id: 'b', employer: 'Globex' }] } }
+    const store = { object: { userExperience: [{ $id: 'a', employer: 'Acme' }, { $id: 'b', employer: 'Initech' }] } }
+
+    expect(getDirtyFields(fields, store, initialStore)).toEqual([
+      'object.userExperience',
+      'object.userExperience[1].employer',
+    ])
+    // Removing an item makes the list dirty
+    expect(getDirtyFields(fields, { object: { userExperience: [initialStore.object.userExperience[0]] } }, initialStore)).toEqual([
+      'object.userExperience',
+    ])
+  })
+
+  it('should compare moved List items with their own initial values', () => {
+    const acme = { employer: 'Acme' }
+    const globex = { employer: 'Globex' }
+    const initialStore = { object: { userExperience: [acme, globex] } }
+    const store = { object: { userExperience: [globex, { employer: 'Initech' }] } }
+    const initialListItems = {
+      'object.userExperience': { 'object.userExperience[0]': globex, 'object.userExperience[1]': acme },
+    }
+
+    expect(getDirtyFields(fields, store, initialStore, initialListItems)).toEqual([
+      'object.userExperience',
+      'object.userExperience[1].employer',
+    ])
+  })
+
+  it('should find the top-level field of nested bindings', () => {
+    expect(findTopLevelField(fields, 'object.userExperience[3].employer')).toBe(experience)
+    expect(findTopLevelField(fields, 'object.username')).toBe(username)
+    expect(findTopLevelField(fields, 'object.other')).toBeUndefined()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { createListItem, findFieldByBinding, remapListItemKeys, resolveListItems } from '../listItems'
+import type { FormField } from '../../types'
+
+const experienceField: FormField = {
+  fieldName: 'Experience',
+  fieldType: 'List',
+  binding: 'object.userExperience',
+  itemObject: 'experienceItem',
+  fields: [
+    { fieldName: 'Employer', fieldType: 'Text', binding: 'experienceItem.employer' },
+    { fieldName: 'Current', fieldType: 'Checkbox', binding: 'experienceItem.current' },
+  ],
+}
+
+describe('listItems', () => {
+  it('should create new items with defaults from nested fields and unique ids', () => {
+    const first = createListItem(experienceField)
+    const second = createListItem(experienceField)
+
+    expect(first).toMatchObject({ employer: '', current: false })
+    expect(first.$id).toBeDefined()
+    expect(first.$id).not.toBe(second.$id)
+  })
+
+  it('should find nested fields by indexed binding', () => {
+    const field = findFieldByBinding([experienceField], 'object.userExperience[2].employer')
+    expect(field?.fieldName).toBe('Employer')
+    expect(field?.binding).toBe('object.userExperience[2].employer')
+  })
+
+  it('should remap index-keyed entries when items move or are removed', () => {
+    const errors = {
+      'object.userExperience': 'Too many items',
+      'object.userExperience[0].employer': 'Required',
+      'object.userExperience[1].employer': 'Unknown employer',
+      'object.userExperience[2].employer': 'Required',
+    }
+
+    // Remove item 0: item 1 -> 0, item 2 -> 1
+    expect(remapListItemKeys(errors, 'object.userExperience', { 0: null, 1: 0, 2: 1 })).toEqual({
+      'object.userExperience': 'Too many items',
+      'object.userExperience[0].employer': 'Unknown employer',
+      'object.userExperience[1].employer': 'Required',
+    })
+  })
+
+  it('should fall back to the listSource only until the binding holds an array', () => {
+    const field: FormField = { ...experienceField, listSource: 'experienceList' }
+    const experienceList = [{ employer: 'Acme' }, { employer: 'Globex' }]
+
+    expect(resolveListItems(field, { object: {}, experienceList })).toBe(experienceList)
+    expect(resolveListItems(field, { object: { userExperience: [experienceList[1]] }, experienceList })).toEqual([
+      { employer: 'Globex' },
+    ])
+    // Removing the last item leaves an empty list, not the source items
+    expect(resolveListItems(field, { object: { userExperience: [] }, experienceList })).toEqual([])
+  })
+})
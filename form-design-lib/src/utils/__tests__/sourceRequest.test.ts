@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { appendQuery, buildSourceRequest, resolveTemplate } from '../sourceRequest'
+import type { FormSource } from '../../types'
+
+describe('sourceRequest', () => {
+  const store = { object: { country: 'US', search: 'san josé & co', tags: ['a', 'b'] } }
+
+  it('should URL-encode endpoint placeholders', () => {
+    const source: FormSource = {
+      sourceName: 'cities',
+      sourceType: 'API',
+      endpoint: '/api/cities/{term}',
+      parameters: { term: 'object.search' },
+    }
+
+    expect(buildSourceRequest(source, store).url).toBe('/api/cities/san%20jos%C3%A9%20%26%20co')
+  })
+
+  it('should not be ready while a parameter is missing', () => {
+    const source: FormSource = {
+      sourceName: 'states',
+      sourceType: 'API',
+      endpoint: '/api/states/{code}',
+      parameters: { code: 'object.state' },
+    }
+
+    const request = buildSourceRequest(source, store)
+    expect(request.ready).toBe(false)
+    expect(request.url).toBe('/api/states/{code}')
+  })
+
+  it('should resolve method, body, headers and query from parameters', () => {
+    const source: FormSource = {
+      sourceName: 'cities',
+      sourceType: 'API',
+      endpoint: '/api/cities/search?v=1',
+      method: 'POST',
+      parameters: { country: 'object.country', term: 'object.search', tags: 'object.tags' },
+      body: { filter: { country: '{country}', tags: '{tags}' }, label: 'Cities in {country}', limit: 20 },
+      headers: { 'X-Country': '{country}' },
+      query: { q: '{term}', tag: ['x', 'y z'], empty: '' },
+    }
+
+    const request = buildSourceRequest(source, store)
+
+    expect(request.ready).toBe(true)
+    expect(request.method).toBe('POST')
+    expect(request.url).toBe('/api/cities/search?v=1&q=san%20jos%C3%A9%20%26%20co&tag=x&tag=y%20z')
+    expect(request.options).toEqual({
+      body: { filter: { country: 'US', tags: ['a', 'b'] }, label: 'Cities in US', limit: 20 },
+      headers: { 'X-Country': 'US' },
+    })
+  })
+
+  it('should change the signature when the body changes', () => {
+    const source: FormSource = {
+      sourceName: 'cities',
+      sourceType: 'API',
+      endpoint: '/api/cities',
+      method: 'POST',
+      parameters: { country: 'object.country' },
+      body: { country: '{country}' },
+    }
+
+    const first = buildSourceRequest(source, store).signature
+    const second = buildSourceRequest(source, { object: { country: 'BR' } }).signature
+    expect(first).not.toBe(second)
+  })
+
+  it('should leave unknown placeholders and literals untouched', () => {
+    expect(resolveTemplate({ a: '{unknown}', b: 3, c: null }, {})).toEqual({ a: '{unknown}', b: 3, c: null })
+    expect(appendQuery('/api', {})).toBe('/api')
+  })
+})
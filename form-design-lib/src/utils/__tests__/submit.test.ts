@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildSubmitPayload, buildSubmitRequest } from '../submit'
+
+describe('submit', () => {
+  const store = {
+    object: { id: 7, username: 'jdoe', country: 'US' },
+    countryList: [{ code: 'US' }],
+  }
+
+  it('should send the whole object source without a payload mapping', () => {
+    expect(buildSubmitPayload({ endpoint: '/api/users' }, store)).toEqual(store.object)
+  })
+
+  it('should map payload properties from bindings', () => {
+    const payload = buildSubmitPayload(
+      { endpoint: '/api/users', payload: { name: 'object.username', 'address.country': 'object.country' } },
+      store
+    )
+
+    expect(payload).toEqual({ name: 'jdoe', address: { country: 'US' } })
+  })
+
+  it('should build the request with method, encoded parameters and headers', () => {
+    const request = buildSubmitRequest(
+      {
+        endpoint: '/api/users/{id}',
+        method: 'PUT',
+        parameters: { id: 'object.id' },
+        headers: { 'X-User': '{id}' },
+      },
+      store
+    )
+
+    expect(request).toEqual({
+      url: '/api/users/7',
+      method: 'PUT',
+      options: { headers: { 'X-User': '7' }, body: store.object },
+    })
+    expect(buildSubmitRequest({ endpoint: '/api/users' }, store).method).toBe('POST')
+  })
+
+  it('should throw when a URL parameter is missing', () => {
+    expect(() =>
+      buildSubmitRequest({ endpoint: '/api/users/{id}', parameters: { id: 'object.missing' } }, store)
+    ).toThrow('Cannot submit: missing value for parameter(s) id')
+  })
+
+  it('should send the configured data source', () => {
+    const customerStore = { customer: { id: 3, name: 'Acme' }, object: { id: 7 } }
+
+    expect(buildSubmitPayload({ endpoint: '/api/customers' }, customerStore, 'customer')).toEqual(customerStore.customer)
+    expect(
+      buildSubmitRequest({ endpoint: '/api/customers/{id}', parameters: { id: 'customer.id' } }, customerStore, 'customer')
+    ).toMatchObject({ url: '/api/customers/3', options: { body: customerStore.customer } })
+  })
+})
@@ -0,0 +1,29 @@
+import type { FormConfig } from '../types'
+
+/**
+ * Utility functions for the data source: the source holding the form data (loaded, edited and submitted)
+ */
+
+/**
+ * Data source of forms that do not set `FormConfig.dataSource`
+ */
+export const DEFAULT_DATA_SOURCE = 'object'
+
+/**
+ * Get the name of the source holding the form data
+ * @param config - The form configuration
+ * @returns `config.dataSource`, or "object" when not set
+ */
+export function getDataSourceName(config: Pick<FormConfig, 'dataSource'>): string {
+  return config.dataSource || DEFAULT_DATA_SOURCE
+}
+
+/**
+ * Get the value a source starts with in the store
+ * @param sourceName - The source name
+ * @param dataSource - The name of the data source
+ * @returns An empty object for the data source, an empty array for option lists
+ */
+export function getInitialSourceValue(sourceName: string, dataSource: string): Record<string, any> | any[] {
+  return sourceName === dataSource ? {} : []
+}
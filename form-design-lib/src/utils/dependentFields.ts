@@ -0,0 +1,60 @@
+import type { FormField, FormSource } from '../types'
+
+/**
+ * Utility functions for fields that must be reset when a parent value changes
+ */
+
+/**
+ * Check if a changed binding affects a trigger path
+ * Changing "object.address" affects "object.address.country" and vice versa.
+ */
+function affectsPath(changedBinding: string, triggerPath: string): boolean {
+  const contains = (outer: string, inner: string) =>
+    inner === outer || inner.startsWith(`${outer}.`) || inner.startsWith(`${outer}[`)
+  return contains(changedBinding, triggerPath) || contains(triggerPath, changedBinding)
+}
+
+/**
+ * Get the binding paths whose changes reset a field
+ * Combines the explicit `resetOn` list with the parameters of the field's optionsSource
+ * (a "states" source parameterized by object.country resets the state field).
+ * @param field - The field configuration
+ * @param sources - The form sources
+ * @returns Trigger binding paths (empty if the field is never reset)
+ */
+export function getResetTriggers(field: FormField, sources: FormSource[]): string[] {
+  const triggers = new Set(field.resetOn || [])
+
+  if (field.optionsSource) {
+    const optionsSource = sources.find((source) => source.sourceName === field.optionsSource)
+    Object.values(optionsSource?.parameters || {}).forEach((path) => triggers.add(path))
+  }
+
+  return Array.from(triggers)
+}
+
+/**
+ * Get the fields to reset after a binding changed, including cascading resets
+ * (country -> state -> city).
+ * @param fields - The form fields
+ * @param sources - The form sources
+ * @param changedBinding - The binding path whose value changed
+ * @returns Fields to reset, in cascade order
+ */
+export function getFieldsToReset(fields: FormField[], sources: FormSource[], changedBinding: string): FormField[] {
+  const toReset: FormField[] = []
+  const queue = [changedBinding]
+
+  while (queue.length > 0) {
+    const binding = queue.shift()!
+    fields.forEach((field) => {
+      if (field.binding === changedBinding || toReset.includes(field)) return
+      if (getResetTriggers(field, sources).some((trigger) => affectsPath(binding, trigger))) {
+        toReset.push(field)
+        queue.push(field.binding)
+      }
+    })
+  }
+
+  return toReset
+}
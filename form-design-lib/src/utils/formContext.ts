@@ -0,0 +1,58 @@
+import type { FormContext } from '../types'
+
+/**
+ * Utility functions for the read-only context roots of the store (queryString, context, env)
+ */
+
+/**
+ * Store roots filled from the form context; fields and sources cannot change them
+ */
+export const CONTEXT_ROOTS = ['queryString', 'context', 'env'] as const
+
+export type ContextRoot = (typeof CONTEXT_ROOTS)[number]
+
+/**
+ * Parse a query string into an object (repeated keys become arrays)
+ * @param search - The query string, with or without the leading "?"
+ * @returns Parameter values by name (e.g., "?tag=a&tag=b" gives { tag: ['a', 'b'] })
+ */
+export function parseQueryString(search: string): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {}
+  new URLSearchParams(search).forEach((value, key) => {
+    const existing = result[key]
+    if (existing === undefined) {
+      result[key] = value
+    } else {
+      result[key] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+    }
+  })
+  return result
+}
+
+/**
+ * Get the store roots of a form context
+ * @param context - The context passed to the form
+ * @returns The queryString (default: the query string of the page), context and env roots
+ */
+export function getContextRoots(context: FormContext = {}): Record<ContextRoot, Record<string, any>> {
+  const { queryString, env, ...values } = context
+  return {
+    queryString: queryString ?? parseQueryString(typeof window !== 'undefined' ? window.location.search : ''),
+    context: values,
+    env: env ?? {},
+  }
+}
+
+/**
+ * Put the context roots back into a store, undoing any change made to them
+ * @param store - The store to check
+ * @param roots - The context roots (from getContextRoots)
+ * @returns The same store when the roots are unchanged, otherwise a copy with the roots restored
+ */
+export function applyContextRoots(
+  store: Record<string, any>,
+  roots: Record<ContextRoot, Record<string, any>>
+): Record<string, any> {
+  if (CONTEXT_ROOTS.every((root) => store[root] === roots[root])) return store
+  return { ...store, ...roots }
+}
@@ -0,0 +1,96 @@
+import type { FormField } from '../types'
+import { getNestedValue } from './nestedValue'
+import { getListItemBinding, getListItemProperty, resolveListItems } from './listItems'
+
+/**
+ * Utility functions for dirty tracking (comparing form values with their initial values)
+ */
+
+/**
+ * Deep equality for form values
+ * Internal keys (starting with "$", such as the List item "$id") are ignored,
+ * and undefined, null and '' are treated as the same empty value.
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are equal
+ */
+export function isDeepEqual(a: any, b: any): boolean {
+  const isEmpty = (value: any) => value === undefined || value === null || value === ''
+  if (isEmpty(a) && isEmpty(b)) return true
+  if (a === b) return true
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]))
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter((key) => !key.startsWith('$')))
+  return Array.from(keys).every((key) => isDeepEqual(a[key], b[key]))
+}
+
+/**
+ * Get the value a field is compared by for dirty tracking
+ * List fields are compared by their items (including items still coming from listSource).
+ * @param field - A top-level field configuration
+ * @param store - The form store
+ * @returns The field value
+ */
+export function getTrackedValue(field: FormField, store: Record<string, any>): any {
+  return field.fieldType === 'List' ? resolveListItems(field, store) : getNestedValue(store, field.binding)
+}
+
+/**
+ * Find the top-level field a binding belongs to (a List field for nested item bindings)
+ * @param fields - The form fields
+ * @param bindingPath - A field binding (e.g., "object.userExperience[1].employer")
+ * @returns The top-level field, or undefined if not found
+ */
+export function findTopLevelField(fields: FormField[], bindingPath: string): FormField | undefined {
+  return fields.find((field) => bindingPath === field.binding || bindingPath.startsWith(`${field.binding}[`))
+}
+
+/**
+ * Get the bindings whose values differ from their initial values
+ * For List fields, the list binding is dirty when any item was added, removed, moved or edited,
+ * and every edited nested field is reported with its indexed binding.
+ * @param fields - The form fields
+ * @param store - The current form store
+ * @param initialStore - The store the values are compared with (e.g., the store once the form data loaded)
+ * @param initialListItems - Initial items of reordered List fields by indexed item binding, per List binding
+ *                           (e.g., { "object.userExperience": { "object.userExperience[0]": item } }, see remapListItemKeys);
+ *                           items of other List fields are compared by index
+ * @returns Dirty binding paths (e.g., ["object.username", "object.userExperience", "object.userExperience[0].employer"])
+ */
+export function getDirtyFields(
+  fields: FormField[],
+  store: Record<string, any>,
+  initialStore: Record<string, any>,
+  initialListItems: Record<string, Record<string, any>> = {}
+): string[] {
+  const dirty: string[] = []
+
+  fields.forEach((field) => {
+    const value = getTrackedValue(field, store)
+    const initialValue = getTrackedValue(field, initialStore)
+    if (isDeepEqual(value, initialValue)) return
+
+    dirty.push(field.binding)
+    if (field.fieldType !== 'List' || !Array.isArray(value)) return
+
+    const initialItems = Array.isArray(initialValue) ? initialValue : []
+    const movedItems = initialListItems[field.binding]
+    value.forEach((item, index) => {
+      const initialItem = movedItems ? movedItems[`${field.binding}[${index}]`] : initialItems[index]
+      ;(field.fields || []).forEach((nestedField) => {
+        const property = getListItemProperty(field, nestedField)
+        if (!isDeepEqual(getNestedValue(item, property), getNestedValue(initialItem, property))) {
+          dirty.push(getListItemBinding(field, index, nestedField))
+        }
+      })
+    })
+  })
+
+  return dirty
+}
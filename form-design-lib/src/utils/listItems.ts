@@ -0,0 +1,165 @@
+import type { FormField } from '../types'
+import { getNestedValue } from './nestedValue'
+
+/**
+ * Utility functions for List fields and the bindings of their nested item fields
+ */
+
+/**
+ * Get the item property a nested List field binds to
+ * "experienceItem.employer" with itemObject "experienceItem" -> "employer"
+ * @param listField - The List field configuration
+ * @param nestedField - One of the List field's nested fields
+ * @returns The property name on each list item
+ */
+export function getListItemProperty(listField: FormField, nestedField: FormField): string {
+  if (listField.itemObject && nestedField.binding.startsWith(`${listField.itemObject}.`)) {
+    // Remove the itemObject prefix: "experienceItem.employer" -> "employer"
+    return nestedField.binding.replace(`${listField.itemObject}.`, '')
+  }
+  if (nestedField.binding.includes('.')) {
+    // If it has a dot but doesn't match itemObject, use the last part
+    return nestedField.binding.split('.').pop() || nestedField.binding
+  }
+  // No prefix, use as-is
+  return nestedField.binding
+}
+
+/**
+ * Build the concrete binding of a nested field for one list item
+ * @param listField - The List field configuration
+ * @param index - The item index
+ * @param nestedField - One of the List field's nested fields
+ * @returns The indexed binding (e.g., "object.userExperience[0].employer")
+ */
+export function getListItemBinding(listField: FormField, index: number, nestedField: FormField): string {
+  return `${listField.binding}[${index}].${getListItemProperty(listField, nestedField)}`
+}
+
+/**
+ * Resolve the items of a List field from the store
+ * Reads from the binding (where edits are stored) and falls back to listSource for initial data
+ * An empty array in the binding is kept: it is a list whose items were all removed.
+ * @param listField - The List field configuration
+ * @param store - The entire form store
+ * @returns The list items (empty array if none)
+ */
+export function resolveListItems(listField: FormField, store: Record<string, any>): any[] {
+  const bindingValue = getNestedValue(store, listField.binding)
+  if (Array.isArray(bindingValue)) {
+    return bindingValue
+  }
+
+  if (!listField.listSource) {
+    return []
+  }
+
+  // Sources wrapping the items in an object declare them with source.select
+  const listData = getNestedValue(store, listField.listSource)
+  return Array.isArray(listData) ? listData : []
+}
+
+/**
+ * Find the field configuration for a binding path, including nested List item fields
+ * Nested fields are returned with their concrete indexed binding.
+ * @param fields - The form fields
+ * @param bindingPath - The binding path (e.g., "object.userExperience[1].employer")
+ * @returns The matching field configuration, or undefined if not found
+ */
+export function findFieldByBinding(fields: FormField[], bindingPath: string): FormField | undefined {
+  for (const field of fields) {
+    if (field.binding === bindingPath) return field
+    if (field.fieldType !== 'List' || !field.fields || !bindingPath.startsWith(`${field.binding}[`)) continue
+
+    const match = bindingPath.slice(field.binding.length).match(/^\[(\d+)\]\./)
+    if (!match) continue
+
+    const index = Number(match[1])
+    const itemFields = field.fields.map((nestedField) => ({
+      ...nestedField,
+      binding: getListItemBinding(field, index, nestedField),
+    }))
+    const found = findFieldByBinding(itemFields, bindingPath)
+    if (found) return found
+  }
+  return undefined
+}
+
+// Counter used to keep generated item IDs unique within a session
+let listItemIdCounter = 0
+
+/**
+ * Generate a stable, unique $id for a new list item (used for React keys)
+ * @param listField - The List field configuration
+ * @returns A new item ID (e.g., "list-object.userExperience-new-1")
+ */
+export function createListItemId(listField: FormField): string {
+  listItemIdCounter += 1
+  return `list-${listField.binding || listField.listSource}-new-${listItemIdCounter}`
+}
+
+/**
+ * Get the empty/default value for a field type
+ * @param field - The field configuration
+ * @returns The default value for a new, untouched field
+ */
+export function getFieldDefaultValue(field: FormField): any {
+  switch (field.fieldType) {
+    case 'Checkbox':
+      return false
+    case 'MultiSelect':
+    case 'List':
+      return []
+    case 'DateRange':
+      return { startDate: '', endDate: '' }
+    case 'File':
+      return null
+    default:
+      return ''
+  }
+}
+
+/**
+ * Create a new list item with default values built from the List field's nested fields
+ * @param listField - The List field configuration
+ * @returns A new item with a unique $id
+ */
+export function createListItem(listField: FormField): Record<string, any> {
+  const item: Record<string, any> = { $id: createListItemId(listField) }
+  ;(listField.fields || []).forEach((nestedField) => {
+    item[getListItemProperty(listField, nestedField)] = getFieldDefaultValue(nestedField)
+  })
+  return item
+}
+
+/**
+ * Remap record keys that point into list items after items were moved or removed
+ * e.g., with indexMap { 0: 1, 1: 0 }, "object.list[0].name" becomes "object.list[1].name"
+ * @param record - Record keyed by binding path (e.g., form errors)
+ * @param listBinding - The List field binding (e.g., "object.userExperience")
+ * @param indexMap - Old index -> new index (null when the item was removed)
+ * @returns A new record with remapped keys
+ */
+export function remapListItemKeys<T>(
+  record: Record<string, T>,
+  listBinding: string,
+  indexMap: Record<number, number | null>
+): Record<string, T> {
+  const prefix = `${listBinding}[`
+  const remapped: Record<string, T> = {}
+
+  Object.entries(record).forEach(([key, value]) => {
+    const match = key.startsWith(prefix) ? key.slice(listBinding.length).match(/^\[(\d+)\](.*)$/) : null
+    if (!match) {
+      remapped[key] = value
+      return
+    }
+
+    const oldIndex = Number(match[1])
+    const newIndex = oldIndex in indexMap ? indexMap[oldIndex] : oldIndex
+    if (newIndex === null) return
+    remapped[`${listBinding}[${newIndex}]${match[2]}`] = value
+  })
+
+  return remapped
+}
@@ -12,14 +12,6 @@
 export function getNestedValue<T = any>(obj: any, path: string): T | undefined {
   if (!path || !obj) return undefined
 
-  // Handle "queryString" special case for the demo
-  if (path.startsWith('queryString.')) {
-    const key = path.split('.')[1]
-    // This is a mock - in real usage, this would come from URL params or context
-    const mockQueryString: Record<string, any> = { userId: '123' }
-    return mockQueryString[key]
-  }
-
   // Handle array indices in path (e.g., "userExperience[0].employer" or "userExperience.0.employer")
   // Convert "[0]" to ".0" for consistent parsing
   const normalizedPath = path.replace(/\[(\d+)\]/g, '.$1')
@@ -0,0 +1,53 @@
+import type { FormField } from '../types'
+import { defaultExpressionEvaluator } from '../core/ExpressionEvaluator'
+
+/**
+ * Get the options of a Dropdown, Radio or MultiSelect field
+ * Applies the field's `optionsFilter` expression (with each option available as `option`)
+ * @param field - The field configuration
+ * @param sourceData - The entire form store
+ * @returns The options to render
+ */
+export function getFieldOptions(field: FormField, sourceData: Record<string, any>): any[] {
+  const optionsData = sourceData[field.optionsSource || '']
+  const options = Array.isArray(optionsData) ? optionsData : []
+
+  if (!field.optionsFilter) return options
+  return options.filter((option) =>
+    defaultExpressionEvaluator.evaluateCondition(field.optionsFilter!, sourceData, { option }, true)
+  )
+}
+
+/**
+ * Check whether a selected value still exists among a field's options
+ * Empty values and fields whose options are not loaded (empty) are treated as available.
+ * @param field - The field configuration (Dropdown, Radio or MultiSelect)
+ * @param value - The selected value (an array for MultiSelect)
+ * @param sourceData - The entire form store
+ * @returns false if any selected value is missing from the options
+ */
+export function isOptionAvailable(field: FormField, value: any, sourceData: Record<string, any>): boolean {
+  if (!field.optionsSource) return true
+
+  const selected = (Array.isArray(value) ? value : [value]).filter(
+    (item) => item !== undefined && item !== null && item !== ''
+  )
+  if (selected.length === 0) return true
+
+  const options = getFieldOptions(field, sourceData)
+  if (options.length === 0) return true
+
+  // Compare as strings: <select> and radio inputs report option values as strings
+  const valueProperty = field.valueProperty || 'value'
+  const optionValues = new Set(options.map((option) => String(option?.[valueProperty])))
+  return selected.every((item) => optionValues.has(String(item)))
+}
+
+/**
+ * Get the error shown when a selected value is no longer among a field's options
+ * @param field - The field configuration
+ * @returns The configured `errorMessages.invalidOption` or the default message
+ */
+export function getInvalidOptionMessage(field: FormField): string {
+  return field.errorMessages?.invalidOption || 'The selected option is no longer available'
+}
@@ -0,0 +1,135 @@
+import type { ApiRequestOptions, FormSource, HttpMethod } from '../types'
+import { getNestedValue } from './nestedValue'
+
+/**
+ * Utility functions for building the API request of a data source
+ */
+
+export interface SourceRequest {
+  /**
+   * False while a parameter is missing (the source cannot be fetched yet)
+   */
+  ready: boolean
+  url: string
+  method: HttpMethod
+  options: ApiRequestOptions
+  /**
+   * Resolved parameter values by parameter name
+   */
+  params: Record<string, any>
+  /**
+   * Stable signature of the request, used to skip fetches that were already made
+   */
+  signature: string
+}
+
+const isMissing = (value: any) => value === undefined || value === null || value === ''
+
+/**
+ * Resolve "{param}" placeholders in a body, header or query template
+ * A string that is exactly one placeholder keeps the parameter's type ("{limit}" -> 20);
+ * placeholders inside longer strings are interpolated. Other values are used as-is.
+ * @param template - The template value (string, array, object or literal)
+ * @param params - Resolved parameter values by name
+ * @returns The resolved value
+ */
+export function resolveTemplate(template: any, params: Record<string, any>): any {
+  if (typeof template === 'string') {
+    const exact = template.match(/^\{(\w+)\}$/)
+    if (exact && exact[1] in params) {
+      return params[exact[1]]
+    }
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      name in params ? String(params[name]) : placeholder
+    )
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => resolveTemplate(item, params))
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, resolveTemplate(value, params)])
+    )
+  }
+  return template
+}
+
+/**
+ * Append URL-encoded query parameters to a URL
+ * Empty values are skipped and arrays repeat the key (?tag=a&tag=b).
+ * @param url - The base URL (may already contain a query string)
+ * @param query - Query parameters by name
+ * @returns The URL with the query string appended
+ */
+export function appendQuery(url: string, query: Record<string, any>): string {
+  const pairs: string[] = []
+  Object.entries(query).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value]
+    values
+      .filter((item) => !isMissing(item))
+      .forEach((item) => pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(item))}`))
+  })
+  if (pairs.length === 0) return url
+  return `${url}${url.includes('?') ? '&' : '?'}${pairs.join('&')}`
+}
+
+/**
+ * Build the request for a data source from the current store
+ * Parameters are resolved from their binding paths; endpoint placeholders are URL-encoded,
+ * and `body`, `headers` and `query` templates reference parameters as "{name}".
+ * @param source - The source configuration
+ * @param store - The entire form store
+ * @returns The request (with ready=false when a parameter is missing)
+ *
+ * @example
+ * ```typescript
+ * buildSourceRequest({
+ *   sourceName: 'cities',
+ *   sourceType: 'API',
+ *   endpoint: '/api/cities/search',
+ *   method: 'POST',
+ *   parameters: { country: 'object.country' },
+ *   body: { country: '{country}', limit: 20 },
+ * }, store)
+ * // { ready: true, url: '/api/cities/search', method: 'POST', options: { body: { country: 'US', limit: 20 } }, ... }
+ * ```
+ */
+export function buildSourceRequest(source: FormSource, store: Record<string, any>): SourceRequest {
+  const params: Record<string, any> = {}
+  let ready = true
+
+  Object.entries(source.parameters || {}).forEach(([paramName, paramPath]) => {
+    const value = getNestedValue(store, paramPath)
+    params[paramName] = value
+    // If a required parameter is missing/undefined, we cannot fetch this source yet
+    if (isMissing(value)) ready = false
+  })
+
+  const method = source.method || 'GET'
+  let url = (source.endpoint || '').replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params && !isMissing(params[name]) ? encodeURIComponent(String(params[name])) : placeholder
+  )
+  if (source.query) {
+    url = appendQuery(url, resolveTemplate(source.query, params))
+  }
+
+  const options: ApiRequestOptions = {}
+  if (source.body !== undefined) {
+    options.body = resolveTemplate(source.body, params)
+  }
+  if (source.headers) {
+    // Header values are always sent as strings
+    options.headers = Object.fromEntries(
+      Object.entries(source.headers).map(([name, value]) => [name, String(resolveTemplate(value, params))])
+    )
+  }
+
+  return {
+    ready,
+    url,
+    method,
+    options,
+    params,
+    signature: JSON.stringify({ url, method, ...options, params }),
+  }
+}
@@ -0,0 +1,76 @@
+import type { ApiRequestOptions, SubmitConfig } from '../types'
+import { getNestedValue, setNestedValue } from './nestedValue'
+import { buildSourceRequest } from './sourceRequest'
+import { DEFAULT_DATA_SOURCE } from './dataSource'
+
+/**
+ * Utility functions for config-driven form submission (FormConfig.submit)
+ */
+
+export interface SubmitRequest {
+  url: string
+  method: string
+  options: ApiRequestOptions
+}
+
+/**
+ * Build the submit payload
+ * Without a payload mapping the whole data source is sent.
+ * @param submit - The submit configuration
+ * @param store - The entire form store
+ * @param dataSource - The source holding the form data (default: 'object')
+ * @returns The request body
+ */
+export function buildSubmitPayload(
+  submit: SubmitConfig,
+  store: Record<string, any>,
+  dataSource: string = DEFAULT_DATA_SOURCE
+): any {
+  if (!submit.payload) {
+    return store[dataSource]
+  }
+
+  return Object.entries(submit.payload).reduce<Record<string, any>>(
+    (payload, [property, bindingPath]) => setNestedValue(payload, property, getNestedValue(store, bindingPath)),
+    {}
+  )
+}
+
+/**
+ * Build the submit request (URL, method, headers and payload)
+ * @param submit - The submit configuration
+ * @param store - The entire form store
+ * @param dataSource - The source holding the form data (default: 'object')
+ * @returns The request to pass to ApiProvider.call
+ * @throws Error if a URL parameter has no value
+ */
+export function buildSubmitRequest(
+  submit: SubmitConfig,
+  store: Record<string, any>,
+  dataSource: string = DEFAULT_DATA_SOURCE
+): SubmitRequest {
+  const request = buildSourceRequest(
+    {
+      sourceName: 'submit',
+      sourceType: 'API',
+      endpoint: submit.endpoint,
+      parameters: submit.parameters,
+      headers: submit.headers,
+    },
+    store
+  )
+
+  if (!request.ready) {
+    const missing = Object.keys(request.params).filter((name) => {
+      const value = request.params[name]
+      return value === undefined || value === null || value === ''
+    })
+    throw new Error(`Cannot submit: missing value for parameter(s) ${missing.join(', ')}`)
+  }
+
+  return {
+    url: request.url,
+    method: submit.method || 'POST',
+    options: { ...request.options, body: buildSubmitPayload(submit, store, dataSource) },
+  }
+}
@@ -0,0 +1,66 @@
+import type { FormField, VisibilityCondition } from '../types'
+import { getNestedValue } from './nestedValue'
+import { defaultExpressionEvaluator } from '../core/ExpressionEvaluator'
+
+/**
+ * Check whether a field should be visible for the given store
+ * Evaluates the field's `visible` and `visibleWhen` properties first, then its `dependsOn` rule
+ * @param field - The field configuration
+ * @param store - The entire form store
+ * @returns true if the field should be rendered and validated, false otherwise
+ */
+export function isFieldVisible(field: FormField, store: Record<string, any>): boolean {
+  // Check explicit visible property
+  if (field.visible !== undefined) {
+    if (typeof field.visible === 'boolean') {
+      if (!field.visible) return false
+    } else if (typeof field.visible === 'function') {
+      const condition = field.visible as VisibilityCondition
+      if (!condition(store, field)) return false
+    }
+  }
+
+  // Check visibility expression
+  if (field.visibleWhen && !defaultExpressionEvaluator.evaluateCondition(field.visibleWhen, store, {}, true)) {
+    return false
+  }
+
+  // Check field dependencies
+  if (field.dependsOn) {
+    const { field: dependentField, value, values, condition } = field.dependsOn
+    const dependentValue = getNestedValue(store, dependentField)
+
+    if (value !== undefined) {
+      // Exact value match
+      if (dependentValue !== value) return false
+    } else if (values !== undefined && Array.isArray(values)) {
+      // Value in array
+      if (!values.includes(dependentValue)) return false
+    } else if (typeof condition === 'string') {
+      // Condition expression with the dependent value as `value`
+      if (!defaultExpressionEvaluator.evaluateCondition(condition, store, { value: dependentValue }, true)) return false
+    } else if (condition) {
+      // Custom condition function
+      if (!condition(dependentValue)) return false
+    } else {
+      // Default: show if dependent field has any truthy value
+      if (!dependentValue) return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Check whether a field is currently required
+ * Combines the static `required` flag with the `requiredWhen` expression
+ * @param field - The field configuration
+ * @param store - The entire form store
+ * @returns true if the field must have a value
+ */
+export function isFieldRequired(field: FormField, store: Record<string, any>): boolean {
+  if (field.requiredWhen) {
+    return defaultExpressionEvaluator.evaluateCondition(field.requiredWhen, store, {}, !!field.required)
+  }
+  return !!field.required
+}